@@ -0,0 +1,28 @@
+import React from 'react';
+import { ANCHORS, type Anchor } from '@/lib/geometry';
+
+interface AnchorPickerProps {
+  value: Anchor;
+  onChange: (anchor: Anchor) => void;
+  label: string;
+  disabled?: boolean;
+}
+
+export const AnchorPicker: React.FC<AnchorPickerProps> = ({ value, onChange, label, disabled }) => (
+  <div className="grid grid-cols-3 gap-1" role="radiogroup" aria-label={label}>
+    {ANCHORS.map((anchor) => (
+      <button
+        key={anchor}
+        type="button"
+        role="radio"
+        aria-checked={value === anchor}
+        title={anchor.replace('-', ' ')}
+        onClick={() => onChange(anchor)}
+        disabled={disabled}
+        className={`h-5 w-5 rounded-sm border disabled:opacity-50 ${
+          value === anchor ? 'bg-primary border-primary' : 'bg-background hover:bg-muted'
+        }`}
+      />
+    ))}
+  </div>
+);
@@ -1,88 +1,171 @@
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { FileText, Upload, AlertCircle } from 'lucide-react';
+import { FileText, Upload, AlertCircle, AlertTriangle, Download } from 'lucide-react';
+import { ColumnMapper, type DelimiterChoice } from '@/components/ColumnMapper';
+import { MappingTable } from '@/components/MappingTable';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-
-interface CSVMapping {
-  currentName: string;
-  newName: string;
-}
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { parseCSVFile, type CSVParseError, type CSVRecord } from '@/lib/csv';
+import { isWorkbookFile, readWorkbook, type Workbook } from '@/lib/workbook';
+import {
+  downloadMapping,
+  guessColumns,
+  isJSONMappingFile,
+  loadColumnChoice,
+  mappingFromRecords,
+  parseMappingJSON,
+  saveColumnChoice,
+  type ColumnSelection,
+  type CSVMapping,
+  type MappingFormat,
+} from '@/lib/mapping';
 
 interface CSVUploadProps {
   onMappingChange: (mapping: CSVMapping[]) => void;
   mapping: CSVMapping[];
 }
 
+const EXPORT_FORMATS: { format: MappingFormat; label: string }[] = [
+  { format: 'csv', label: 'CSV' },
+  { format: 'json', label: 'JSON' },
+  { format: 'ndjson', label: 'NDJSON' },
+];
+
+interface SourceTable {
+  records: CSVRecord[];
+  errors: CSVParseError[];
+  /** Delimiter used to tokenize a CSV; absent for spreadsheets */
+  delimiter?: string;
+}
+
+// Spreadsheet rows from `header` (1-based) down, without blank rows below it
+const sheetTable = (book: Workbook, index: number, header: number): SourceTable => ({
+  records: book.sheets[index].rows
+    .map((fields, i) => ({ fields, line: i + 1 }))
+    .filter(({ fields, line }) => line >= header && (line === header || fields.some((f) => f.trim()))),
+  errors: [],
+});
+
 export const CSVUpload: React.FC<CSVUploadProps> = ({ onMappingChange, mapping }) => {
   const [error, setError] = useState<string | null>(null);
   const [csvFile, setCsvFile] = useState<File | null>(null);
+  const [problems, setProblems] = useState<CSVParseError[]>([]);
 
-  const parseCSV = (text: string): CSVMapping[] => {
-    // Remove BOM if present and split lines (handle CRLF)
-    const content = text.replace(/^\uFEFF/, '');
-    const lines = content.split(/\r?\n/).filter((line) => line.trim());
-    if (lines.length < 2) {
-      throw new Error('CSV must have at least a header row and one data row');
-    }
+  const [workbook, setWorkbook] = useState<Workbook | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [headerRow, setHeaderRow] = useState(1);
 
-    // Detect common delimiters: comma, semicolon (Excel locales), tab, pipe
-    const possibleDelimiters = [',', ';', '\t', '|'];
-    const headerLine = lines[0];
-    let delimiter = ',';
-    let maxCount = -1;
-    for (const d of possibleDelimiters) {
-      const re = new RegExp(`\\${d}`, 'g');
-      const count = (headerLine.match(re) || []).length;
-      if (count > maxCount) {
-        maxCount = count;
-        delimiter = d;
+  const [table, setTable] = useState<SourceTable | null>(null);
+  const [delimiter, setDelimiter] = useState<DelimiterChoice>('auto');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [columns, setColumns] = useState<ColumnSelection>({ currentColumn: 0, newColumn: 1 });
+
+  // The mapping as last built from the table; anything else in `mapping`
+  // means rows were edited, cropped or generated since
+  const builtRef = useRef<CSVMapping[] | null>(null);
+  const [pendingChange, setPendingChange] = useState<(() => void) | null>(null);
+
+  const buildMapping = useCallback(
+    (source: SourceTable, header: boolean, selection: ColumnSelection) => {
+      let built: CSVMapping[] = [];
+      try {
+        const result = mappingFromRecords(source.records, { hasHeader: header, ...selection }, source.errors);
+        built = result.mappings;
+        setError(null);
+        setProblems(result.problems);
+      } catch (err) {
+        setProblems(source.errors);
+        setError(err instanceof Error ? err.message : 'Failed to build mapping');
       }
+      builtRef.current = built;
+      onMappingChange(built);
+    },
+    [onMappingChange]
+  );
+
+  // Rebuilding replaces the whole mapping, so ask first when it has been changed
+  const confirmRebuild = (apply: () => void) => {
+    if (builtRef.current && mapping !== builtRef.current && mapping.length > 0) {
+      setPendingChange(() => apply);
+    } else {
+      apply();
     }
+  };
 
-    const split = (line: string) => line.split(delimiter).map((h) => h.trim());
+  // Show a freshly loaded table, restoring the column choice last used for
+  // the same header row
+  const loadTable = useCallback(
+    (next: SourceTable) => {
+      const headers = next.records[0]?.fields ?? [];
+      const selection = loadColumnChoice(headers) ?? guessColumns(headers);
+      setTable(next);
+      setColumns(selection);
+      buildMapping(next, hasHeader, selection);
+    },
+    [buildMapping, hasHeader]
+  );
 
-    const headers = split(headerLine).map((h) => h.replace(/['"]/g, '').trim().toLowerCase());
+  const readCSV = useCallback((file: File, choice: DelimiterChoice) => {
+    parseCSVFile(file, choice === 'auto' ? undefined : choice)
+      .then(loadTable)
+      .catch((err) => {
+        setTable(null);
+        builtRef.current = null;
+        onMappingChange([]);
+        setError(err instanceof Error ? err.message : 'Failed to parse CSV file');
+      });
+  }, [loadTable, onMappingChange]);
 
-    if (headers.length < 2) {
-      throw new Error('CSV must have at least 2 columns');
-    }
+  const selectSheet = (index: number, header: number) => {
+    if (!workbook) return;
+    confirmRebuild(() => {
+      setSheetIndex(index);
+      setHeaderRow(header);
+      loadTable(sheetTable(workbook, index, header));
+    });
+  };
 
-    // Find columns for current and new names (flexible column detection)
-    const currentNameIndex = headers.findIndex(
-      (h) => h.includes('current') || h.includes('old') || h.includes('original') || h === 'from' || h.includes('source')
-    );
-    const newNameIndex = headers.findIndex(
-      (h) => h.includes('new') || h.includes('rename') || h.includes('target') || h === 'to' || h.includes('dest')
-    );
-
-    const useCurrentIndex = currentNameIndex !== -1 ? currentNameIndex : 0;
-    const useNewIndex = newNameIndex !== -1 ? newNameIndex : 1;
-
-    const mappings: CSVMapping[] = [];
-
-    for (let i = 1; i < lines.length; i++) {
-      const columns = split(lines[i]);
-      const neededLen = Math.max(useCurrentIndex, useNewIndex) + 1;
-      if (columns.length >= neededLen) {
-        const currentName = columns[useCurrentIndex]?.replace(/['"]/g, '').trim() || '';
-        const newName = columns[useNewIndex]?.replace(/['"]/g, '').trim() || '';
-
-        if (currentName && newName) {
-          mappings.push({ currentName, newName });
-        }
+  const changeColumns = (selection: ColumnSelection) =>
+    confirmRebuild(() => {
+      setColumns(selection);
+      if (!table) return;
+      if (hasHeader && table.records.length > 0) {
+        saveColumnChoice(table.records[0].fields, selection);
       }
-    }
+      buildMapping(table, hasHeader, selection);
+    });
 
-    if (mappings.length === 0) {
-      throw new Error(
-        'No valid mappings found. Ensure the CSV uses comma, semicolon, or tab as separators and includes both current and new names.'
-      );
-    }
+  const changeHasHeader = (header: boolean) =>
+    confirmRebuild(() => {
+      setHasHeader(header);
+      if (table) buildMapping(table, header, columns);
+    });
 
-    return mappings;
-  };
+  const changeDelimiter = (choice: DelimiterChoice) =>
+    confirmRebuild(() => {
+      setDelimiter(choice);
+      if (csvFile) readCSV(csvFile, choice);
+    });
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -90,33 +173,74 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({ onMappingChange, mapping }
 
     setCsvFile(file);
     setError(null);
+    setProblems([]);
+    setWorkbook(null);
+    setTable(null);
+    builtRef.current = null;
 
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      try {
-        const text = e.target?.result as string;
-        const mappings = parseCSV(text);
-        onMappingChange(mappings);
-      } catch (err) {
-        setError(err instanceof Error ? err.message : 'Failed to parse CSV file');
-      }
-    };
-    reader.readAsText(file);
-  }, [onMappingChange]);
+    if (isWorkbookFile(file)) {
+      readWorkbook(file)
+        .then((book) => {
+          if (book.sheets.length === 0) {
+            throw new Error('Workbook contains no sheets');
+          }
+          setWorkbook(book);
+          setSheetIndex(0);
+          setHeaderRow(1);
+          loadTable(sheetTable(book, 0, 1));
+        })
+        .catch((err) => {
+          onMappingChange([]);
+          setError(err instanceof Error ? err.message : 'Failed to read workbook');
+        });
+      return;
+    }
+
+    if (isJSONMappingFile(file)) {
+      file
+        .text()
+        .then((text) => {
+          const { mappings, problems } = parseMappingJSON(text);
+          setProblems(problems);
+          onMappingChange(mappings);
+        })
+        .catch((err) => {
+          onMappingChange([]);
+          setError(err instanceof Error ? err.message : 'Failed to parse JSON file');
+        });
+      return;
+    }
+
+    readCSV(file, delimiter);
+  }, [delimiter, loadTable, onMappingChange, readCSV]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
       'text/csv': ['.csv'],
-      'application/vnd.ms-excel': ['.csv']
+      'application/vnd.ms-excel': ['.csv'],
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
+      'application/vnd.oasis.opendocument.spreadsheet': ['.ods'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl']
     },
     multiple: false
   });
 
+  const sourceLabel = workbook
+    ? workbook.sheets[sheetIndex].name
+    : csvFile && isJSONMappingFile(csvFile)
+      ? 'JSON'
+      : 'CSV';
+
   const clearMapping = () => {
     setCsvFile(null);
+    setWorkbook(null);
+    setTable(null);
+    builtRef.current = null;
     onMappingChange([]);
     setError(null);
+    setProblems([]);
   };
 
   return (
@@ -135,14 +259,14 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({ onMappingChange, mapping }
         <input {...getInputProps()} />
         <FileText className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
         {isDragActive ? (
-          <p className="text-secondary font-medium">Drop the CSV file here...</p>
+          <p className="text-secondary font-medium">Drop the mapping file here...</p>
         ) : (
           <div>
             <p className="text-foreground font-medium mb-2">
-              Drag & drop your CSV file here, or click to select
+              Drag & drop your CSV or spreadsheet here, or click to select
             </p>
             <p className="text-muted-foreground text-sm">
-              CSV should have columns for current and new image names
+              CSV, Excel (.xlsx), OpenDocument (.ods), JSON or NDJSON with current and new image names
             </p>
           </div>
         )}
@@ -155,44 +279,135 @@ export const CSVUpload: React.FC<CSVUploadProps> = ({ onMappingChange, mapping }
         </Alert>
       )}
 
-      {csvFile && mapping.length > 0 && (
+      {workbook && (
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="mapping-sheet">Sheet</Label>
+            <Select
+              value={String(sheetIndex)}
+              onValueChange={(value) => selectSheet(Number(value), headerRow)}
+            >
+              <SelectTrigger id="mapping-sheet">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {workbook.sheets.map((sheet, index) => (
+                  <SelectItem key={index} value={String(index)}>
+                    {sheet.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mapping-header-row">{hasHeader ? 'Header row' : 'First data row'}</Label>
+            <Input
+              id="mapping-header-row"
+              type="number"
+              min={1}
+              value={headerRow}
+              onChange={(e) => {
+                const row = Math.max(1, Math.floor(Number(e.target.value) || 1));
+                selectSheet(sheetIndex, row);
+              }}
+            />
+          </div>
+        </div>
+      )}
+
+      {table && table.records.length > 0 && (
+        <ColumnMapper
+          records={table.records}
+          hasHeader={hasHeader}
+          onHasHeaderChange={changeHasHeader}
+          selection={columns}
+          onSelectionChange={changeColumns}
+          {...(!workbook && {
+            delimiter,
+            detectedDelimiter: table.delimiter,
+            onDelimiterChange: changeDelimiter,
+          })}
+        />
+      )}
+
+      {problems.length > 0 && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium mb-1">
+              {problems.length} problem{problems.length === 1 ? '' : 's'} found while reading the {workbook ? 'sheet' : sourceLabel}
+            </p>
+            <ul className="max-h-32 overflow-y-auto text-xs space-y-0.5">
+              {problems.map((problem, index) => (
+                <li key={index}>
+                  {workbook ? 'Row' : 'Line'} {problem.line}, column {problem.column}: {problem.message}
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {(csvFile || mapping.length > 0) && (
         <Card className="p-4 shadow-card">
           <div className="flex items-center justify-between mb-4">
             <h3 className="font-semibold text-foreground flex items-center gap-2">
               <FileText className="h-5 w-5" />
-              CSV Mapping ({mapping.length} entries)
+              {sourceLabel} Mapping ({mapping.length} entries)
             </h3>
-            <Button 
-              variant="outline" 
-              size="sm" 
-              onClick={clearMapping}
-              className="text-destructive hover:text-destructive"
-            >
-              Clear
-            </Button>
-          </div>
-          
-          <div className="max-h-60 overflow-y-auto">
-            <div className="grid grid-cols-2 gap-4 text-sm">
-              <div className="font-medium text-muted-foreground">Current Name</div>
-              <div className="font-medium text-muted-foreground">New Name</div>
-              
-              {mapping.slice(0, 10).map((item, index) => (
-                <React.Fragment key={index}>
-                  <div className="text-foreground truncate">{item.currentName}</div>
-                  <div className="text-foreground truncate">{item.newName}</div>
-                </React.Fragment>
-              ))}
-              
-              {mapping.length > 10 && (
-                <div className="col-span-2 text-center text-muted-foreground py-2">
-                  ... and {mapping.length - 10} more entries
-                </div>
-              )}
+            <div className="flex gap-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="secondary" size="sm" className="flex items-center gap-2">
+                    <Download className="h-4 w-4" />
+                    Export
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  {EXPORT_FORMATS.map(({ format, label }) => (
+                    <DropdownMenuItem key={format} onSelect={() => downloadMapping(mapping, format)}>
+                      {label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+              <Button 
+                variant="outline" 
+                size="sm" 
+                onClick={clearMapping}
+                className="text-destructive hover:text-destructive"
+              >
+                Clear
+              </Button>
             </div>
           </div>
+          
+          <MappingTable mapping={mapping} onMappingChange={onMappingChange} />
         </Card>
       )}
+
+      <AlertDialog open={pendingChange !== null} onOpenChange={(open) => !open && setPendingChange(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rebuild the mapping?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The mapping has changed since it was read from the {workbook ? 'sheet' : sourceLabel}. Reading it again
+              with the new settings discards edited rows and crop boxes.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep my changes</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                pendingChange?.();
+                setPendingChange(null);
+              }}
+            >
+              Rebuild
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 };
\ No newline at end of file
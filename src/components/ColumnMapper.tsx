@@ -0,0 +1,175 @@
+import React from 'react';
+import { Columns } from 'lucide-react';
+import { Card } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { CSVRecord } from '@/lib/csv';
+import type { ColumnSelection, OptionalColumn } from '@/lib/mapping';
+
+export type DelimiterChoice = 'auto' | ',' | ';' | '\t' | '|';
+
+const DELIMITER_OPTIONS: { value: DelimiterChoice; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+const PREVIEW_ROWS = 5;
+
+const OPTIONAL_COLUMNS: { key: OptionalColumn; label: string; tag: string }[] = [
+  { key: 'folderColumn', label: 'Folder column', tag: 'folder' },
+  { key: 'watermarkColumn', label: 'Watermark yes/no column', tag: 'watermark' },
+  { key: 'cropColumn', label: 'Crop x,y,width,height column', tag: 'crop' },
+  { key: 'qualityColumn', label: 'Quality column', tag: 'quality' },
+  { key: 'formatColumn', label: 'Output format column', tag: 'format' },
+  { key: 'titleColumn', label: 'Title column', tag: 'title' },
+  { key: 'descriptionColumn', label: 'Description column', tag: 'description' },
+  { key: 'copyrightColumn', label: 'Copyright column', tag: 'copyright' },
+  { key: 'keywordsColumn', label: 'Keywords column', tag: 'keywords' },
+  { key: 'altTextColumn', label: 'Alt text column', tag: 'alt text' },
+];
+
+interface ColumnMapperProps {
+  records: CSVRecord[];
+  hasHeader: boolean;
+  onHasHeaderChange: (hasHeader: boolean) => void;
+  selection: ColumnSelection;
+  onSelectionChange: (selection: ColumnSelection) => void;
+  /** Only shown for delimited text; spreadsheets have no delimiter */
+  delimiter?: DelimiterChoice;
+  detectedDelimiter?: string;
+  onDelimiterChange?: (delimiter: DelimiterChoice) => void;
+}
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({
+  records,
+  hasHeader,
+  onHasHeaderChange,
+  selection,
+  onSelectionChange,
+  delimiter,
+  detectedDelimiter,
+  onDelimiterChange,
+}) => {
+  const columnCount = records.reduce((max, record) => Math.max(max, record.fields.length), 0);
+  const headers = Array.from({ length: columnCount }, (_, index) => {
+    const name = hasHeader ? records[0]?.fields[index]?.trim() : '';
+    return name || `Column ${index + 1}`;
+  });
+  const previewRows = (hasHeader ? records.slice(1) : records).slice(0, PREVIEW_ROWS);
+
+  const detectedLabel = DELIMITER_OPTIONS.find((option) => option.value === detectedDelimiter)?.label;
+
+  const columnSelect = (id: string, label: string, key: keyof ColumnSelection, optional = false) => (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={String(selection[key] ?? -1)}
+        onValueChange={(value) => onSelectionChange({ ...selection, [key]: Number(value) })}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value="-1">None</SelectItem>}
+          {headers.map((header, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {header}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const columnClass = (index: number) =>
+    index === selection.currentColumn
+      ? 'bg-secondary/10'
+      : index === selection.newColumn
+        ? 'bg-primary/10'
+        : OPTIONAL_COLUMNS.some(({ key }) => selection[key] === index)
+          ? 'bg-accent/10'
+          : '';
+
+  return (
+    <Card className="p-4 shadow-card space-y-4">
+      <h3 className="font-semibold text-foreground flex items-center gap-2">
+        <Columns className="h-5 w-5" />
+        Columns
+      </h3>
+
+      <div className="grid grid-cols-2 gap-4">
+        {columnSelect('mapping-current-column', 'Current name column', 'currentColumn')}
+        {columnSelect('mapping-new-column', 'New name column', 'newColumn')}
+        {OPTIONAL_COLUMNS.map(({ key, label, tag }) => (
+          <React.Fragment key={key}>{columnSelect(`mapping-${tag}-column`, `${label} (optional)`, key, true)}</React.Fragment>
+        ))}
+
+        {onDelimiterChange && (
+          <div className="space-y-2">
+            <Label htmlFor="mapping-delimiter">Delimiter</Label>
+            <Select value={delimiter} onValueChange={(value) => onDelimiterChange(value as DelimiterChoice)}>
+              <SelectTrigger id="mapping-delimiter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DELIMITER_OPTIONS.map((option) => (
+                  <SelectItem key={option.label} value={option.value}>
+                    {option.value === 'auto' && detectedLabel
+                      ? `${option.label} — ${detectedLabel}`
+                      : option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2 self-end pb-2">
+          <Switch id="mapping-has-header" checked={hasHeader} onCheckedChange={onHasHeaderChange} />
+          <Label htmlFor="mapping-has-header">First row is a header</Label>
+        </div>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              {headers.map((header, index) => (
+                <TableHead key={index} className={`whitespace-nowrap ${columnClass(index)}`}>
+                  {header}
+                  {index === selection.currentColumn && (
+                    <span className="ml-1 text-xs text-secondary">(current)</span>
+                  )}
+                  {index === selection.newColumn && (
+                    <span className="ml-1 text-xs text-primary">(new)</span>
+                  )}
+                  {OPTIONAL_COLUMNS.filter(({ key }) => selection[key] === index).map(({ key, tag }) => (
+                    <span key={key} className="ml-1 text-xs text-accent">
+                      ({tag})
+                    </span>
+                  ))}
+                </TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {previewRows.map((record) => (
+              <TableRow key={record.line}>
+                {headers.map((_, index) => (
+                  <TableCell key={index} className={`max-w-40 truncate ${columnClass(index)}`}>
+                    {record.fields[index] ?? ''}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Crop } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { clampRect, formatCropRect } from '@/lib/crop';
+import type { Rect } from '@/lib/geometry';
+
+interface CropItem {
+  id: string;
+  preview: string;
+  relativePath: string;
+  crop: Rect | null;
+  /** Why this image's crop cannot be stored, if it cannot */
+  locked?: string;
+}
+
+interface CropEditorProps {
+  items: CropItem[];
+  /** Width/height ratio new boxes are held to; 0 for any */
+  ratio: number;
+  onCropChange: (id: string, crop: Rect | null) => void;
+  disabled?: boolean;
+}
+
+interface Drag {
+  mode: 'draw' | 'move';
+  startX: number;
+  startY: number;
+  origin: Rect | null;
+}
+
+// Smaller boxes are taken for stray clicks
+const MIN_CROP_SIZE = 8;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const CropEditor: React.FC<CropEditorProps> = ({ items, ratio, onCropChange, disabled }) => {
+  const imgRef = useRef<HTMLImageElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const [itemId, setItemId] = useState<string | null>(null);
+  const [natural, setNatural] = useState<{ width: number; height: number } | null>(null);
+  const [draft, setDraft] = useState<Rect | null>(null);
+
+  const index = Math.max(0, items.findIndex((item) => item.id === itemId));
+  const item = items[index];
+  const rect = draft ?? item?.crop ?? null;
+  const cropCount = items.filter((i) => i.crop).length;
+
+  const select = (id: string) => {
+    setItemId(id);
+    setNatural(null);
+    setDraft(null);
+  };
+
+  // Pointer position in source pixels
+  const toImage = (e: React.PointerEvent) => {
+    const img = imgRef.current!;
+    const bounds = img.getBoundingClientRect();
+    const scale = img.naturalWidth / bounds.width;
+    return {
+      x: clamp((e.clientX - bounds.left) * scale, 0, img.naturalWidth),
+      y: clamp((e.clientY - bounds.top) * scale, 0, img.naturalHeight),
+    };
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!natural || item.locked) return;
+    const { x, y } = toImage(e);
+    const inside = rect && x >= rect.x && x <= rect.x + rect.width && y >= rect.y && y <= rect.y + rect.height;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { mode: inside ? 'move' : 'draw', startX: x, startY: y, origin: rect };
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag || !natural) return;
+    const { x, y } = toImage(e);
+
+    if (drag.mode === 'move' && drag.origin) {
+      const { origin } = drag;
+      setDraft({
+        ...origin,
+        x: clamp(origin.x + x - drag.startX, 0, natural.width - origin.width),
+        y: clamp(origin.y + y - drag.startY, 0, natural.height - origin.height),
+      });
+      return;
+    }
+
+    // Shrink the dragged box to the ratio, keeping the corner it started from
+    let width = Math.abs(x - drag.startX);
+    let height = Math.abs(y - drag.startY);
+    if (ratio) {
+      if (width > height * ratio) width = height * ratio;
+      else height = width / ratio;
+    }
+    setDraft({
+      x: x < drag.startX ? drag.startX - width : drag.startX,
+      y: y < drag.startY ? drag.startY - height : drag.startY,
+      width,
+      height,
+    });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+    if (draft && natural && draft.width >= MIN_CROP_SIZE && draft.height >= MIN_CROP_SIZE) {
+      onCropChange(item.id, clampRect(draft, natural.width, natural.height));
+    }
+    setDraft(null);
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return (
+    <Dialog onOpenChange={() => setDraft(null)}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled || items.length === 0}>
+          <Crop className="h-4 w-4 mr-2" />
+          Crop images{cropCount > 0 && ` (${cropCount} set)`}
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Crop images</DialogTitle>
+          <DialogDescription>
+            Drag on the image to draw a crop box, or drag the box to move it. Boxes are saved in the
+            mapping, so exporting it keeps them for the next run.
+          </DialogDescription>
+        </DialogHeader>
+
+        {item && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="icon" onClick={() => select(items[index - 1].id)} disabled={index === 0}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Select value={item.id} onValueChange={select}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {items.map((i) => (
+                    <SelectItem key={i.id} value={i.id}>
+                      {i.relativePath}
+                      {i.crop && ' (cropped)'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => select(items[index + 1].id)}
+                disabled={index === items.length - 1}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            <div className="flex justify-center rounded-lg border bg-muted p-2">
+              <div
+                className={`relative overflow-hidden select-none touch-none ${item.locked ? '' : 'cursor-crosshair'}`}
+                onPointerDown={startDrag}
+                onPointerMove={moveDrag}
+                onPointerUp={endDrag}
+              >
+                <img
+                  key={item.id}
+                  ref={imgRef}
+                  src={item.preview}
+                  alt={item.relativePath}
+                  draggable={false}
+                  onLoad={(e) =>
+                    setNatural({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })
+                  }
+                  className="block max-h-[55vh] max-w-full"
+                />
+                {natural && rect && (
+                  <div
+                    className="pointer-events-none absolute border-2 border-primary shadow-[0_0_0_9999px_rgba(0,0,0,0.45)]"
+                    style={{
+                      left: percent(rect.x, natural.width),
+                      top: percent(rect.y, natural.height),
+                      width: percent(rect.width, natural.width),
+                      height: percent(rect.height, natural.height),
+                    }}
+                  />
+                )}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {item.locked ??
+                  (rect
+                    ? `Crop ${formatCropRect(rect)} (x, y, width, height in pixels)`
+                    : natural && `No crop · ${natural.width}×${natural.height}`)}
+              </p>
+              <Button variant="outline" size="sm" onClick={() => onCropChange(item.id, null)} disabled={!item.crop}>
+                Remove crop
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { AnchorPicker } from '@/components/AnchorPicker';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CROP_ASPECTS, type CropAspect, type CropOptions } from '@/lib/crop';
+
+interface CropSettingsProps {
+  options: CropOptions;
+  onChange: (options: CropOptions) => void;
+  disabled?: boolean;
+}
+
+export const CropSettings: React.FC<CropSettingsProps> = ({ options, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+    <div className="flex items-center gap-2">
+      <Label htmlFor="crop-aspect" className="font-normal whitespace-nowrap">
+        Aspect ratio
+      </Label>
+      <Select
+        value={options.aspect}
+        onValueChange={(aspect) => onChange({ ...options, aspect: aspect as CropAspect })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="crop-aspect" className="w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CROP_ASPECTS.map(({ aspect, label }) => (
+            <SelectItem key={aspect} value={aspect}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    {options.aspect !== 'none' && (
+      <div className="flex items-center gap-2">
+        <Label className="font-normal">Keep</Label>
+        <AnchorPicker
+          value={options.anchor}
+          onChange={(anchor) => onChange({ ...options, anchor })}
+          label="Part of the image to keep"
+          disabled={disabled}
+        />
+      </div>
+    )}
+
+    <div className="flex items-center gap-2">
+      <Switch
+        id="crop-trim"
+        checked={options.trim}
+        onCheckedChange={(trim) => onChange({ ...options, trim })}
+        disabled={disabled}
+      />
+      <Label htmlFor="crop-trim" className="font-normal">
+        Trim uniform borders
+      </Label>
+    </div>
+
+    {options.trim && (
+      <div className="flex items-center gap-3" title="How far a pixel may differ from the border colour and still be trimmed">
+        <Label className="font-normal">Tolerance</Label>
+        <Slider
+          value={[options.tolerance]}
+          min={0}
+          max={96}
+          step={1}
+          onValueChange={([tolerance]) => onChange({ ...options, tolerance })}
+          className="w-32"
+          disabled={disabled}
+        />
+        <span className="w-8 text-sm tabular-nums">{options.tolerance}</span>
+      </div>
+    )}
+  </div>
+);
@@ -1,38 +1,225 @@
-import React, { useState } from 'react';
-import { Download, FileArchive, CheckCircle, XCircle, Loader2 } from 'lucide-react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Download, FileArchive, CheckCircle, XCircle, Loader2, MinusCircle } from 'lucide-react';
+import { CropEditor } from '@/components/CropEditor';
+import { CropSettings } from '@/components/CropSettings';
+import { MatchReportCard } from '@/components/MatchReportCard';
+import { MetadataSettings } from '@/components/MetadataSettings';
+import { OutputNameSettings } from '@/components/OutputNameSettings';
+import { ResizeSettings } from '@/components/ResizeSettings';
+import { OutputFormatSettings } from '@/components/OutputFormatSettings';
+import { SizeLimitSettings } from '@/components/SizeLimitSettings';
+import { WatermarkSettings } from '@/components/WatermarkSettings';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import JSZip from 'jszip';
+import { formatBytes } from '@/lib/utils';
+import type { CSVMapping } from '@/lib/mapping';
+import { aspectRatio } from '@/lib/crop';
+import type { Rect } from '@/lib/geometry';
+import { COLLISION_POLICIES, findCollisions, resolveCollisions, type CollisionPolicy } from '@/lib/collisions';
+import {
+  DEFAULT_NAME_OPTIONS,
+  normalizeOutputName,
+  outputFileName,
+  replaceExtension,
+  splitExtension,
+  splitPath,
+  validateOutputPath,
+  type NameOptions,
+} from '@/lib/filenames';
+import { detectImageType, extensionMatchesType, type DetectedType } from '@/lib/fileType';
+import {
+  DEFAULT_PROCESSING_OPTIONS,
+  encodableExtension,
+  encoderQuality,
+  mimeTypeForExtension,
+  outputExtension,
+  reencodeImage,
+  requiresCanvas,
+  type ProcessingOptions,
+} from '@/lib/imageProcessing';
+import {
+  DEFAULT_METADATA_OPTIONS,
+  keepsMetadata,
+  mergeFields,
+  transferMetadata,
+  type MetadataFields,
+  type MetadataOptions,
+} from '@/lib/metadata';
+import { buildMatchReport, describeMatch, DEFAULT_MATCH_MODES, MATCH_MODES, type MatchMode } from '@/lib/matching';
 
 interface ImageFile {
   file: File;
   preview: string;
   id: string;
-}
-
-interface CSVMapping {
-  currentName: string;
-  newName: string;
+  relativePath: string;
 }
 
 interface ProcessedImage {
   originalFile: ImageFile;
   newName: string;
-  status: 'pending' | 'processed' | 'failed';
+  status: 'pending' | 'processed' | 'failed' | 'skipped';
+  /** Which mapping rule produced `newName` */
+  matchedBy?: string;
+  /** How a name collision or the encoder affected this image */
+  note?: string;
+  /** False when the original file bytes were copied unchanged */
+  reencoded?: boolean;
+  /** Encoder quality the output was written with */
+  quality?: number;
+  /** Metadata fields written into the output, from the batch settings and the mapping row */
+  metadata?: MetadataFields;
+  /** Output dimensions after transforms */
+  width?: number;
+  height?: number;
   blob?: Blob;
   error?: string;
 }
 
+const sizeChange = (before: number, after: number) => {
+  const percent = before ? Math.round(((after - before) / before) * 100) : 0;
+  return `${percent > 0 ? '+' : ''}${percent}%`;
+};
+
 interface ImageProcessorProps {
   images: ImageFile[];
   mapping: CSVMapping[];
+  /** Receives the mapping with crop boxes drawn in the crop editor */
+  onMappingChange?: (mapping: CSVMapping[]) => void;
 }
 
-export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping }) => {
+export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping, onMappingChange }) => {
   const [processedImages, setProcessedImages] = useState<ProcessedImage[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [skippedImages, setSkippedImages] = useState(0);
+  const [matchModes, setMatchModes] = useState<MatchMode[]>(DEFAULT_MATCH_MODES);
+  const [collisionPolicy, setCollisionPolicy] = useState<CollisionPolicy>('fail');
+  const [nameOptions, setNameOptions] = useState<NameOptions>(DEFAULT_NAME_OPTIONS);
+  const [processingOptions, setProcessingOptions] = useState<ProcessingOptions>(DEFAULT_PROCESSING_OPTIONS);
+  const [metadataOptions, setMetadataOptions] = useState<MetadataOptions>(DEFAULT_METADATA_OPTIONS);
+  const [detectedTypes, setDetectedTypes] = useState<Map<string, DetectedType | null>>(new Map());
+
+  // Sniff the real type of every image from its magic bytes
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      images.map(async (image) => [image.id, await detectImageType(image.file).catch(() => null)] as const)
+    ).then((entries) => {
+      if (!cancelled) setDetectedTypes(new Map(entries));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [images]);
+
+  // Dry run of the matcher, shown before processing and reused by it
+  const matchReport = useMemo(
+    () => buildMatchReport(images, (image) => image.relativePath, mapping, matchModes),
+    [images, mapping, matchModes]
+  );
+
+  // Settings for one image: the batch settings with the mapping row's crop
+  // box, quality and output format, and a "no" in its watermark column
+  // leaves the watermark off. A row quality implies re-encoding.
+  const optionsFor = useCallback(
+    (entry: CSVMapping): ProcessingOptions => ({
+      ...processingOptions,
+      reencode: processingOptions.reencode || entry.quality !== undefined,
+      crop: { ...processingOptions.crop, rect: entry.crop ?? null },
+      output: entry.format ? { ...processingOptions.output, format: entry.format } : processingOptions.output,
+      watermark:
+        entry.watermark === false ? { ...processingOptions.watermark, enabled: false } : processingOptions.watermark,
+    }),
+    [processingOptions]
+  );
+
+  // Output names before collision handling; an image matched by repeated
+  // rows yields one output per row
+  const plannedOutputs = useMemo(
+    () =>
+      matchReport.matched.flatMap(({ item, match }) =>
+        match.outputs.map((candidate) => {
+          const detected = detectedTypes.get(item.id);
+          const options = optionsFor(candidate.entry);
+          const fileName = outputFileName(candidate.entry.newName, item.file.name, nameOptions, detected?.extension);
+          // A chosen output format overrides whatever extension the name would get
+          const forcedExtension = outputExtension(options.output);
+          let mappedName = forcedExtension ? replaceExtension(fileName, forcedExtension) : fileName;
+          // Types the browser cannot encode come out as PNG, so the name says so
+          const extension = splitExtension(mappedName)[1];
+          const encodedExtension = requiresCanvas(options) && extension ? encodableExtension(extension) : extension;
+          if (encodedExtension !== extension) mappedName = replaceExtension(mappedName, encodedExtension);
+          const name = normalizeOutputName(mappedName, nameOptions);
+          return {
+            image: item,
+            match: candidate,
+            name,
+            fixedFrom: name !== mappedName ? mappedName : undefined,
+            typeNote:
+              encodedExtension !== extension
+                ? `Browser cannot encode .${extension}; saved as .${encodedExtension}`
+                : undefined,
+            issues: validateOutputPath(name, nameOptions.profile),
+            detected,
+          };
+        })
+      ),
+    [matchReport, nameOptions, detectedTypes, optionsFor]
+  );
+  const invalidNames = plannedOutputs.filter((output) => output.issues.length > 0);
+
+  // Copied bytes keep their real type, so a wrong extension would ship as-is
+  const typeMismatches = plannedOutputs
+    .filter(
+      ({ name, detected, match }) =>
+        detected &&
+        !requiresCanvas(optionsFor(match.entry)) &&
+        !extensionMatchesType(splitExtension(name)[1], detected)
+    )
+    .map(({ name, detected }) => ({
+      name,
+      message: `File is ${detected!.extension.toUpperCase()}, but the new name ends in .${splitExtension(name)[1]}`,
+    }));
+  const collisions = useMemo(() => findCollisions(plannedOutputs.map((output) => output.name)), [plannedOutputs]);
+  const blockedByCollisions = collisionPolicy === 'fail' && collisions.length > 0;
+  const isBlocked = blockedByCollisions || invalidNames.length > 0;
+
+  // Crop boxes live on the mapping rows, so a row shared with other images
+  // (a glob, say) would crop all of them the same way
+  const cropItems = useMemo(() => {
+    const rowUses = new Map<number, number>();
+    for (const { match } of matchReport.matched) {
+      for (const { mappingIndex } of match.outputs) rowUses.set(mappingIndex, (rowUses.get(mappingIndex) ?? 0) + 1);
+    }
+    return matchReport.matched.map(({ item, match }) => ({
+      id: item.id,
+      preview: item.preview,
+      relativePath: item.relativePath,
+      crop: match.best!.entry.crop ?? null,
+      locked: match.outputs.some(({ mappingIndex }) => rowUses.get(mappingIndex)! > 1)
+        ? 'Its mapping row also matches other images; give it a row of its own to crop it'
+        : undefined,
+    }));
+  }, [matchReport]);
+
+  const setImageCrop = (id: string, crop: Rect | null) => {
+    const match = matchReport.matched.find(({ item }) => item.id === id)?.match;
+    if (!match || !onMappingChange) return;
+    const rows = new Set(match.outputs.map(({ mappingIndex }) => mappingIndex));
+    onMappingChange(mapping.map((entry, index) => (rows.has(index) ? { ...entry, crop: crop ?? undefined } : entry)));
+  };
+
+  const toggleMatchMode = (mode: MatchMode, enabled: boolean) => {
+    setMatchModes((current) =>
+      enabled ? [...current, mode] : current.filter((m) => m !== mode)
+    );
+  };
 
   const processImages = async () => {
     if (images.length === 0 || mapping.length === 0) return;
@@ -42,80 +229,90 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
 
     const processed: ProcessedImage[] = [];
 
-    // Filter images to only include those with a mapping
-    const imagesToProcess = images.filter(image => {
-      const originalFileName = image.file.name;
-      const fileNameWithoutExt = originalFileName.replace(/\.[^/.]+$/, "");
-      
-      return mapping.some(m => 
-        m.currentName === originalFileName || 
-        m.currentName === fileNameWithoutExt ||
-        originalFileName.includes(m.currentName) ||
-        fileNameWithoutExt.includes(m.currentName)
-      );
-    });
+    setSkippedImages(matchReport.unmatched.length);
 
-    if (imagesToProcess.length === 0) {
+    if (plannedOutputs.length === 0 || isBlocked) {
       setIsProcessing(false);
       return;
     }
 
-    for (let i = 0; i < imagesToProcess.length; i++) {
-      const image = imagesToProcess[i];
-      const originalFileName = image.file.name;
-      const fileNameWithoutExt = originalFileName.replace(/\.[^/.]+$/, "");
-      
-      // Find mapping for this image
-      const mappingEntry = mapping.find(m => 
-        m.currentName === originalFileName || 
-        m.currentName === fileNameWithoutExt ||
-        originalFileName.includes(m.currentName) ||
-        fileNameWithoutExt.includes(m.currentName)
-      );
+    const resolvedNames = resolveCollisions(plannedOutputs.map((output) => output.name), collisionPolicy);
+
+    for (let i = 0; i < plannedOutputs.length; i++) {
+      const { image, match, fixedFrom, typeNote } = plannedOutputs[i];
+      const { name, note } = resolvedNames[i];
 
       const processedImage: ProcessedImage = {
         originalFile: image,
-        newName: mappingEntry ? mappingEntry.newName : originalFileName,
-        status: 'pending'
+        newName: name ?? plannedOutputs[i].name,
+        matchedBy: describeMatch(match),
+        note: [fixedFrom && `Name fixed from ${fixedFrom}`, typeNote, note].filter(Boolean).join('; ') || undefined,
+        status: name === null ? 'skipped' : 'pending'
       };
 
-      try {
-        // Create a new blob with the same image data
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-        const img = new Image();
-        
-        await new Promise((resolve, reject) => {
-          img.onload = resolve;
-          img.onerror = reject;
-          img.src = image.preview;
-        });
-
-        canvas.width = img.width;
-        canvas.height = img.height;
-        ctx?.drawImage(img, 0, 0);
-
-        // Get file extension from original or default to jpg
-        const originalExt = originalFileName.split('.').pop()?.toLowerCase() || 'jpg';
-        let newFileName = processedImage.newName;
-        
-        // Add extension if not present
-        if (!newFileName.includes('.')) {
-          newFileName += `.${originalExt}`;
-        }
+      if (processedImage.status === 'skipped') {
+        processed.push(processedImage);
+        setProgress(((i + 1) / plannedOutputs.length) * 100);
+        setProcessedImages([...processed]);
+        continue;
+      }
 
-        processedImage.newName = newFileName;
+      const imageOptions = optionsFor(match.entry);
 
-        // Convert canvas to blob
-        const blob = await new Promise<Blob>((resolve, reject) => {
-          canvas.toBlob(
-            (blob) => blob ? resolve(blob) : reject(new Error('Failed to blob')),
-            `image/${originalExt === 'jpg' ? 'jpeg' : originalExt}`,
-            0.9
-          );
-        });
+      try {
+        // Canvas output carries no metadata, so it is always written back;
+        // copied originals are only rewritten when the settings change them
+        const rowFields = match.entry.metadata;
+        const fields = mergeFields(metadataOptions.fields, rowFields);
+        const writeMetadata = (blob: Blob, size?: { width: number; height: number }) =>
+          transferMetadata(image.file, blob, { mode: metadataOptions.mode, fields, upright: !!size, size });
+        const { sizeLimit } = imageOptions;
+
+        if (requiresCanvas(imageOptions)) {
+          // Encode to the type the output name promises
+          const mimeType = mimeTypeForExtension(splitExtension(processedImage.newName)[1] || 'jpg');
+          const quality = match.entry.quality ?? encoderQuality(mimeType, imageOptions.output);
+          let encoded = await reencodeImage(image.file, mimeType, quality, imageOptions);
+          let written = await writeMetadata(encoded.blob, encoded);
+
+          // The search only sees pixels; when the metadata pushes the file over
+          // the limit, search again with the metadata's size taken off the budget
+          const overhead = written.blob.size - encoded.blob.size;
+          if (sizeLimit.enabled && written.blob.size > sizeLimit.maxBytes && overhead > 0 && overhead < sizeLimit.maxBytes) {
+            encoded = await reencodeImage(image.file, mimeType, quality, {
+              ...imageOptions,
+              sizeLimit: { ...sizeLimit, maxBytes: sizeLimit.maxBytes - overhead },
+            });
+            written = await writeMetadata(encoded.blob, encoded);
+          }
+
+          const { blob } = written;
+          const notes = [processedImage.note, ...written.warnings];
+          if (encoded.blob.type && encoded.blob.type !== mimeType) {
+            notes.push(`Browser cannot encode ${mimeType}; saved as ${encoded.blob.type}`);
+          }
+          if (sizeLimit.enabled && blob.size > sizeLimit.maxBytes) {
+            notes.push(`Could not get below ${formatBytes(sizeLimit.maxBytes)}; smallest was ${formatBytes(blob.size)}`);
+          }
+          processedImage.note = notes.filter(Boolean).join('; ') || undefined;
+          processedImage.blob = blob;
+          processedImage.metadata = fields;
+          processedImage.quality = encoded.quality;
+          processedImage.width = encoded.width;
+          processedImage.height = encoded.height;
+          processedImage.reencoded = true;
+        } else {
+          // Pure rename: keep the original pixels, colour profile and animation
+          processedImage.blob = image.file;
+          processedImage.reencoded = false;
+          if (!keepsMetadata(metadataOptions, rowFields)) {
+            const { blob, warnings } = await writeMetadata(image.file);
+            processedImage.blob = blob;
+            processedImage.metadata = fields;
+            processedImage.note = [processedImage.note, ...warnings].filter(Boolean).join('; ') || undefined;
+          }
+        }
 
-        processedImage.blob = blob;
         processedImage.status = 'processed';
       } catch (error) {
         processedImage.status = 'failed';
@@ -123,7 +320,7 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
       }
 
       processed.push(processedImage);
-      setProgress(((i + 1) / imagesToProcess.length) * 100);
+      setProgress(((i + 1) / plannedOutputs.length) * 100);
       setProcessedImages([...processed]);
 
       // Small delay to show progress
@@ -139,7 +336,7 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
     const url = URL.createObjectURL(processedImage.blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = processedImage.newName;
+    a.download = splitPath(processedImage.newName)[1];
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -150,6 +347,7 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
     const zip = new JSZip();
     const successfulImages = processedImages.filter(img => img.status === 'processed' && img.blob);
 
+    // Folders in output names become directories inside the archive
     for (const processedImage of successfulImages) {
       if (processedImage.blob) {
         zip.file(processedImage.newName, processedImage.blob);
@@ -167,7 +365,7 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
     URL.revokeObjectURL(url);
   };
 
-  const canProcess = images.length > 0 && mapping.length > 0;
+  const canProcess = images.length > 0 && mapping.length > 0 && matchModes.length > 0;
   const hasProcessedImages = processedImages.length > 0;
   const successfulImages = processedImages.filter(img => img.status === 'processed');
 
@@ -179,7 +377,7 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
           {canProcess && (
             <Button 
               onClick={processImages} 
-              disabled={isProcessing}
+              disabled={isProcessing || matchReport.matched.length === 0 || isBlocked}
               className="bg-gradient-primary"
             >
               {isProcessing ? (
@@ -188,15 +386,164 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
                   Processing...
                 </>
               ) : (
-                'Start Processing'
+                `Start Processing (${matchReport.matched.length} of ${images.length}` +
+                (plannedOutputs.length > matchReport.matched.length ? `, ${plannedOutputs.length} files)` : ')')
               )}
             </Button>
           )}
         </div>
 
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Match mapping rows by</p>
+          <div className="flex flex-wrap gap-x-6 gap-y-2">
+            {MATCH_MODES.map(({ mode, label, description }) => (
+              <div key={mode} className="flex items-center gap-2" title={description}>
+                <Checkbox
+                  id={`match-mode-${mode}`}
+                  checked={matchModes.includes(mode)}
+                  onCheckedChange={(checked) => toggleMatchMode(mode, checked === true)}
+                  disabled={isProcessing}
+                />
+                <Label htmlFor={`match-mode-${mode}`} className="font-normal">
+                  {label}
+                </Label>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            When several rows match an image, the most specific wins: exact before extension-less,
+            case-insensitive, prefix, glob and regex; then the longer pattern; then the earlier row.
+            Rows repeating the winning current name each produce another copy of the image.
+          </p>
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Output names</p>
+          <OutputNameSettings options={nameOptions} onChange={setNameOptions} disabled={isProcessing} />
+        </div>
+
+        <div className="mb-4">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm font-medium text-foreground">Crop</p>
+            {onMappingChange && (
+              <CropEditor
+                items={cropItems}
+                ratio={aspectRatio(processingOptions.crop.aspect)}
+                onCropChange={setImageCrop}
+                disabled={isProcessing}
+              />
+            )}
+          </div>
+          <CropSettings
+            options={processingOptions.crop}
+            onChange={(crop) => setProcessingOptions({ ...processingOptions, crop })}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Resize</p>
+          <ResizeSettings
+            options={processingOptions.resize}
+            onChange={(resize) => setProcessingOptions({ ...processingOptions, resize })}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Output format</p>
+          <OutputFormatSettings
+            options={processingOptions.output}
+            onChange={(output) => setProcessingOptions({ ...processingOptions, output })}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">File size</p>
+          <SizeLimitSettings
+            options={processingOptions.sizeLimit}
+            onChange={(sizeLimit) => setProcessingOptions({ ...processingOptions, sizeLimit })}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Watermark</p>
+          <WatermarkSettings
+            options={processingOptions.watermark}
+            onChange={(watermark) => setProcessingOptions({ ...processingOptions, watermark })}
+            samples={images}
+            disabled={isProcessing}
+          />
+        </div>
+
+        <div className="mb-4">
+          <p className="text-sm font-medium text-foreground mb-2">Metadata</p>
+          <MetadataSettings options={metadataOptions} onChange={setMetadataOptions} disabled={isProcessing} />
+        </div>
+
+        <div className="mb-4 flex items-center gap-2">
+          <Switch
+            id="reencode-images"
+            checked={requiresCanvas(processingOptions)}
+            onCheckedChange={(reencode) => setProcessingOptions({ ...processingOptions, reencode })}
+            // Transforms always re-encode
+            disabled={isProcessing || requiresCanvas({ ...processingOptions, reencode: false })}
+          />
+          <Label htmlFor="reencode-images" className="font-normal">
+            Re-encode images
+          </Label>
+          <span className="text-xs text-muted-foreground">
+            {requiresCanvas(processingOptions)
+              ? 'Images are decoded and re-encoded; animation and colour profiles are lost'
+              : 'Lossless rename: original pixels are copied unchanged'}
+          </span>
+        </div>
+
+        {canProcess && !isProcessing && (
+          <div className="mb-4">
+            <MatchReportCard
+              report={matchReport}
+              totalImages={images.length}
+              collisions={collisions}
+              outputSources={plannedOutputs.map(({ image }) => image.relativePath)}
+              invalidNames={invalidNames.map(({ name, issues }) => ({ name, issues }))}
+              typeMismatches={typeMismatches}
+            />
+          </div>
+        )}
+
+        {canProcess && collisions.length > 0 && (
+          <div className="mb-4 flex flex-wrap items-center gap-4">
+            <Label htmlFor="collision-policy">When output names collide</Label>
+            <Select
+              value={collisionPolicy}
+              onValueChange={(value) => setCollisionPolicy(value as CollisionPolicy)}
+              disabled={isProcessing}
+            >
+              <SelectTrigger id="collision-policy" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {COLLISION_POLICIES.map(({ policy, label }) => (
+                  <SelectItem key={policy} value={policy}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-xs text-muted-foreground">
+              {COLLISION_POLICIES.find((p) => p.policy === collisionPolicy)?.description}
+            </span>
+          </div>
+        )}
+
         {!canProcess && (
           <p className="text-muted-foreground text-center py-8">
-            Upload images and CSV mapping to start processing
+            {matchModes.length === 0
+              ? 'Select at least one match mode to start processing'
+              : 'Upload images and CSV mapping to start processing'}
           </p>
         )}
 
@@ -215,6 +562,11 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
           <div className="flex items-center justify-between mb-4">
             <h3 className="text-lg font-semibold text-foreground">
               Results ({successfulImages.length} processed)
+              {skippedImages > 0 && (
+                <span className="block text-sm font-normal text-destructive">
+                  {skippedImages} image{skippedImages === 1 ? '' : 's'} skipped without a mapping
+                </span>
+              )}
             </h3>
             {successfulImages.length > 0 && (
               <Button 
@@ -245,8 +597,29 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
                   
                   <div className="flex-1 min-w-0">
                     <p className="text-sm font-medium text-foreground truncate">
-                      {processedImage.originalFile.file.name} → {processedImage.newName}
+                      {processedImage.originalFile.relativePath} → {processedImage.newName}
                     </p>
+                    {processedImage.matchedBy && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        {processedImage.matchedBy}
+                        {processedImage.reencoded === false && ' · original pixels'}
+                        {processedImage.blob && (
+                          <>
+                            {' · '}
+                            {formatBytes(processedImage.originalFile.file.size)} → {formatBytes(processedImage.blob.size)}
+                            {processedImage.reencoded && ` (${sizeChange(processedImage.originalFile.file.size, processedImage.blob.size)})`}
+                          </>
+                        )}
+                        {processedImage.width !== undefined && ` · ${processedImage.width}×${processedImage.height}`}
+                        {processedImage.quality !== undefined && ` · quality ${Math.round(processedImage.quality * 100)}`}
+                      </p>
+                    )}
+                    {processedImage.metadata?.altText && (
+                      <p className="text-xs text-muted-foreground truncate">Alt: {processedImage.metadata.altText}</p>
+                    )}
+                    {processedImage.note && (
+                      <p className="text-xs text-amber-600 truncate">{processedImage.note}</p>
+                    )}
                     {processedImage.error && (
                       <p className="text-xs text-destructive">{processedImage.error}</p>
                     )}
@@ -259,6 +632,9 @@ export const ImageProcessor: React.FC<ImageProcessorProps> = ({ images, mapping
                     {processedImage.status === 'failed' && (
                       <XCircle className="h-5 w-5 text-destructive" />
                     )}
+                    {processedImage.status === 'skipped' && (
+                      <MinusCircle className="h-5 w-5 text-muted-foreground" />
+                    )}
                     {processedImage.status === 'pending' && (
                       <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
                     )}
@@ -1,39 +1,102 @@
-import React, { useCallback, useState } from 'react';
-import { useDropzone } from 'react-dropzone';
-import { Upload, X, Image as ImageIcon, Download } from 'lucide-react';
+import React, { useCallback, useRef, useState } from 'react';
+import { useDropzone, type FileWithPath } from 'react-dropzone';
+import { Upload, X, Image as ImageIcon, Download, FolderOpen, FileArchive, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ARCHIVE_EXTENSIONS, isArchiveFile, readImageArchive, type SkippedEntry } from '@/lib/archive';
+import { serializeCSV } from '@/lib/csv';
+import { joinPath, splitExtension } from '@/lib/filenames';
 
 interface ImageFile {
   file: File;
   preview: string;
   id: string;
+  /** Path inside a dropped folder, e.g. "shoes/front.jpg"; the file name for loose files */
+  relativePath: string;
 }
 
+const IMAGE_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp'];
+
+// Dropped folders are traversed by the dropzone, which records each file's
+// path; the folder picker fills in webkitRelativePath instead
+const relativePathOf = (file: FileWithPath): string =>
+  joinPath(file.relativePath || file.webkitRelativePath) || file.name;
+
+interface ArchiveReport {
+  archive: string;
+  imported: number;
+  skipped: SkippedEntry[];
+  error?: string;
+}
+
+const isImageFile = (file: File) =>
+  file.type.startsWith('image/') || IMAGE_EXTENSIONS.includes(`.${splitExtension(file.name)[1].toLowerCase()}`);
+
 interface ImageUploadProps {
   onImagesChange: (images: ImageFile[]) => void;
   images: ImageFile[];
 }
 
 export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images }) => {
-  const onDrop = useCallback((acceptedFiles: File[]) => {
-    const newImages = acceptedFiles.map(file => ({
+  const folderInputRef = useRef<HTMLInputElement | null>(null);
+  const [archiveReports, setArchiveReports] = useState<ArchiveReport[]>([]);
+  const [isExtracting, setIsExtracting] = useState(false);
+  // Archive extraction is awaited, and images may be added or removed meanwhile
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    const toImage = (file: File, relativePath: string): ImageFile => ({
       file,
       preview: URL.createObjectURL(file),
-      id: Math.random().toString(36).substr(2, 9)
-    }));
+      id: Math.random().toString(36).substr(2, 9),
+      relativePath
+    });
+
+    const archives = acceptedFiles.filter(isArchiveFile);
+    const newImages = acceptedFiles
+      .filter(file => !isArchiveFile(file))
+      .map(file => toImage(file, relativePathOf(file)));
+
+    // Images inside archives keep their path within the archive
+    if (archives.length > 0) {
+      setIsExtracting(true);
+      const reports: ArchiveReport[] = [];
+      for (const archive of archives) {
+        try {
+          const { images: entries, skipped } = await readImageArchive(archive);
+          newImages.push(...entries.map(({ file, path }) => toImage(file, path)));
+          reports.push({ archive: archive.name, imported: entries.length, skipped });
+        } catch (err) {
+          const error = err instanceof Error ? err.message : 'Failed to read archive';
+          reports.push({ archive: archive.name, imported: 0, skipped: [], error });
+        }
+      }
+      setArchiveReports(reports);
+      setIsExtracting(false);
+    }
     
-    onImagesChange([...images, ...newImages]);
-  }, [images, onImagesChange]);
+    onImagesChange([...imagesRef.current, ...newImages]);
+  }, [onImagesChange]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.png', '.jpg', '.jpeg', '.gif', '.bmp', '.webp']
+      'image/*': IMAGE_EXTENSIONS,
+      'application/zip': ARCHIVE_EXTENSIONS,
+      'application/x-zip-compressed': ARCHIVE_EXTENSIONS
     },
-    multiple: true
+    multiple: true,
+    disabled: isExtracting
   });
 
+  const onFolderSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onDrop(Array.from(e.target.files ?? []).filter(isImageFile));
+    // Allow picking the same folder again
+    e.target.value = '';
+  };
+
   const removeImage = (id: string) => {
     const imageToRemove = images.find(img => img.id === id);
     if (imageToRemove) {
@@ -44,14 +107,16 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images
 
   const clearAllImages = () => {
     images.forEach(img => URL.revokeObjectURL(img.preview));
+    setArchiveReports([]);
     onImagesChange([]);
   };
 
   const downloadCSVTemplate = () => {
-    const csvContent = [
-      'current_name,new_name',
-      ...images.map(img => `${img.file.name},`)
-    ].join('\n');
+    // Folder paths may contain commas or quotes, so fields are escaped
+    const csvContent = serializeCSV([
+      ['current_name', 'new_name'],
+      ...images.map(img => [img.relativePath, ''])
+    ]);
 
     const blob = new Blob([csvContent], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -78,8 +143,14 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images
         `}
       >
         <input {...getInputProps()} />
-        <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-        {isDragActive ? (
+        {isExtracting ? (
+          <Loader2 className="mx-auto h-12 w-12 text-muted-foreground mb-4 animate-spin" />
+        ) : (
+          <Upload className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+        )}
+        {isExtracting ? (
+          <p className="text-foreground font-medium">Extracting images from archive...</p>
+        ) : isDragActive ? (
           <p className="text-primary font-medium">Drop the images here...</p>
         ) : (
           <div>
@@ -87,12 +158,53 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images
               Drag & drop images here, or click to select
             </p>
             <p className="text-muted-foreground text-sm">
-              Supports: PNG, JPG, JPEG, GIF, BMP, WebP
+              Supports: PNG, JPG, JPEG, GIF, BMP, WebP — drop whole folders or ZIP archives to keep their structure
             </p>
           </div>
         )}
       </div>
 
+      <div className="flex justify-center">
+        <input
+          ref={(input) => {
+            folderInputRef.current = input;
+            input?.setAttribute('webkitdirectory', '');
+          }}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={onFolderSelected}
+          disabled={isExtracting}
+        />
+        <Button variant="outline" size="sm" onClick={() => folderInputRef.current?.click()} disabled={isExtracting}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Select Folder
+        </Button>
+      </div>
+
+      {archiveReports.map((report) => (
+        <Alert key={report.archive} variant={report.error ? 'destructive' : 'default'}>
+          <FileArchive className="h-4 w-4" />
+          <AlertDescription>
+            <p className="font-medium mb-1">
+              {report.error
+                ? `${report.archive}: ${report.error}`
+                : `${report.archive}: imported ${report.imported} image${report.imported === 1 ? '' : 's'}` +
+                  (report.skipped.length ? `, skipped ${report.skipped.length} other entries` : '')}
+            </p>
+            {report.skipped.length > 0 && (
+              <ul className="max-h-32 overflow-y-auto text-xs space-y-0.5">
+                {report.skipped.map(({ path, reason }) => (
+                  <li key={path} className="truncate">
+                    {path}: {reason}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      ))}
+
       {images.length > 0 && (
         <Card className="p-4 shadow-card">
           <div className="flex items-center justify-between mb-4">
@@ -127,7 +239,7 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images
                 <div className="aspect-square rounded-lg overflow-hidden bg-muted">
                   <img
                     src={image.preview}
-                    alt={image.file.name}
+                    alt={image.relativePath}
                     className="w-full h-full object-cover"
                   />
                 </div>
@@ -139,8 +251,8 @@ export const ImageUpload: React.FC<ImageUploadProps> = ({ onImagesChange, images
                 >
                   <X className="h-3 w-3" />
                 </Button>
-                <p className="text-xs text-muted-foreground mt-1 truncate">
-                  {image.file.name}
+                <p className="text-xs text-muted-foreground mt-1 truncate" title={image.relativePath}>
+                  {image.relativePath}
                 </p>
               </div>
             ))}
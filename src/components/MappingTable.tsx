@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, ArrowUpDown, Plus, Search, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import type { CSVMapping } from '@/lib/mapping';
+
+type SortKey = 'currentName' | 'newName';
+type SortDirection = 'asc' | 'desc';
+type EditableField = 'currentName' | 'newName';
+
+interface MappingTableProps {
+  mapping: CSVMapping[];
+  onMappingChange: (mapping: CSVMapping[]) => void;
+}
+
+// Rows are virtualized with a fixed height so that large catalogs (tens of
+// thousands of rows) only render what is visible
+const ROW_HEIGHT = 40;
+const VIEWPORT_HEIGHT = 320;
+const OVERSCAN = 6;
+
+const COLUMNS: { key: EditableField; label: string }[] = [
+  { key: 'currentName', label: 'Current Name' },
+  { key: 'newName', label: 'New Name' },
+];
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+export const MappingTable: React.FC<MappingTableProps> = ({ mapping, onMappingChange }) => {
+  const [filter, setFilter] = useState('');
+  const [sort, setSort] = useState<{ key: SortKey; direction: SortDirection } | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [editing, setEditing] = useState<{ index: number; field: EditableField; value: string } | null>(null);
+  const [draft, setDraft] = useState<CSVMapping>({ currentName: '', newName: '' });
+
+  // Indices into `mapping` in display order, so edits and deletes always
+  // address the underlying row regardless of sorting and filtering
+  const rows = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    const indices = mapping
+      .map((_, index) => index)
+      .filter(
+        (index) =>
+          !query ||
+          mapping[index].currentName.toLowerCase().includes(query) ||
+          mapping[index].newName.toLowerCase().includes(query)
+      );
+    if (sort) {
+      const factor = sort.direction === 'asc' ? 1 : -1;
+      indices.sort((a, b) => factor * collator.compare(mapping[a][sort.key], mapping[b][sort.key]) || a - b);
+    }
+    return indices;
+  }, [mapping, filter, sort]);
+
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rows.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visibleRows = rows.slice(firstRow, lastRow);
+
+  const toggleSort = (key: SortKey) => {
+    setSort((current) => {
+      if (!current || current.key !== key) return { key, direction: 'asc' };
+      if (current.direction === 'asc') return { key, direction: 'desc' };
+      return null;
+    });
+  };
+
+  const commitEdit = () => {
+    if (!editing) return;
+    const value = editing.value.trim();
+    // An empty name would make the row unusable; treat it as a cancelled edit
+    if (value && value !== mapping[editing.index][editing.field]) {
+      onMappingChange(
+        mapping.map((entry, index) => (index === editing.index ? { ...entry, [editing.field]: value } : entry))
+      );
+    }
+    setEditing(null);
+  };
+
+  const deleteRow = (rowIndex: number) => {
+    onMappingChange(mapping.filter((_, index) => index !== rowIndex));
+    setEditing(null);
+  };
+
+  const addRow = (e: React.FormEvent) => {
+    e.preventDefault();
+    const currentName = draft.currentName.trim();
+    const newName = draft.newName.trim();
+    if (!currentName || !newName) return;
+    onMappingChange([...mapping, { currentName, newName }]);
+    setDraft({ currentName: '', newName: '' });
+  };
+
+  const sortIcon = (key: SortKey) => {
+    if (sort?.key !== key) return <ArrowUpDown className="h-3 w-3" />;
+    return sort.direction === 'asc' ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />;
+  };
+
+  const colGroup = (
+    <colgroup>
+      <col className="w-[45%]" />
+      <col className="w-[45%]" />
+      <col className="w-[10%]" />
+    </colgroup>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value);
+            setScrollTop(0);
+          }}
+          placeholder="Filter by current or new name"
+          className="pl-9"
+        />
+      </div>
+
+      <div className="rounded-md border">
+        <Table className="table-fixed">
+          {colGroup}
+          <TableHeader>
+            <TableRow>
+              {COLUMNS.map(({ key, label }) => (
+                <TableHead key={key} className="h-10">
+                  <button
+                    type="button"
+                    onClick={() => toggleSort(key)}
+                    className="flex items-center gap-1 hover:text-foreground"
+                  >
+                    {label}
+                    {sortIcon(key)}
+                  </button>
+                </TableHead>
+              ))}
+              <TableHead className="h-10" />
+            </TableRow>
+          </TableHeader>
+        </Table>
+
+        <div
+          className="overflow-y-auto"
+          style={{ height: Math.min(VIEWPORT_HEIGHT, Math.max(rows.length, 1) * ROW_HEIGHT) }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
+          <Table className="table-fixed">
+            {colGroup}
+            <TableBody>
+              {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+              {visibleRows.map((rowIndex) => (
+                <TableRow key={rowIndex} style={{ height: ROW_HEIGHT }}>
+                  {COLUMNS.map(({ key }) => (
+                    <TableCell key={key} className="py-0 px-2">
+                      {editing?.index === rowIndex && editing.field === key ? (
+                        <Input
+                          autoFocus
+                          value={editing.value}
+                          onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                          onBlur={commitEdit}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') commitEdit();
+                            if (e.key === 'Escape') setEditing(null);
+                          }}
+                          className="h-8"
+                        />
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => setEditing({ index: rowIndex, field: key, value: mapping[rowIndex][key] })}
+                          className="w-full truncate text-left px-2 py-1 rounded hover:bg-muted"
+                          title="Click to edit"
+                        >
+                          {mapping[rowIndex][key]}
+                        </button>
+                      )}
+                    </TableCell>
+                  ))}
+                  <TableCell className="py-0 px-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => deleteRow(rowIndex)}
+                      aria-label="Delete row"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {lastRow < rows.length && <tr style={{ height: (rows.length - lastRow) * ROW_HEIGHT }} />}
+            </TableBody>
+          </Table>
+          {rows.length === 0 && (
+            <p className="text-center text-sm text-muted-foreground py-2">
+              {mapping.length === 0 ? 'No entries yet' : 'No entries match the filter'}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <form onSubmit={addRow} className="flex gap-2">
+        <Input
+          value={draft.currentName}
+          onChange={(e) => setDraft({ ...draft, currentName: e.target.value })}
+          placeholder="Current name"
+        />
+        <Input
+          value={draft.newName}
+          onChange={(e) => setDraft({ ...draft, newName: e.target.value })}
+          placeholder="New name"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={!draft.currentName.trim() || !draft.newName.trim()}
+          className="flex items-center gap-2 shrink-0"
+        >
+          <Plus className="h-4 w-4" />
+          Add
+        </Button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,243 @@
+import React from 'react';
+import { AlertTriangle, Ban, CheckCircle, Copy, CopyPlus, FileQuestion, FileWarning, GitFork, ListX } from 'lucide-react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import type { Collision } from '@/lib/collisions';
+import { describeMatch, type MatchReport } from '@/lib/matching';
+
+interface ReportImage {
+  id: string;
+  relativePath: string;
+}
+
+interface MatchReportCardProps {
+  report: MatchReport<ReportImage>;
+  totalImages: number;
+  /** Output name collisions among the planned outputs */
+  collisions?: Collision[];
+  /**
+   * Source file name of each planned output, indexed like collision indices.
+   * Defaults to one output per matched image.
+   */
+  outputSources?: string[];
+  /** Output names the target platforms cannot store */
+  invalidNames?: { name: string; issues: string[] }[];
+  /** Outputs whose extension disagrees with the file's real type */
+  typeMismatches?: { name: string; message: string }[];
+}
+
+const MAX_LISTED = 200;
+
+const ListLimit: React.FC<{ count: number }> = ({ count }) =>
+  count > MAX_LISTED ? (
+    <li className="text-muted-foreground">... and {count - MAX_LISTED} more</li>
+  ) : null;
+
+export const MatchReportCard: React.FC<MatchReportCardProps> = ({
+  report,
+  totalImages,
+  collisions = [],
+  outputSources,
+  invalidNames = [],
+  typeMismatches = [],
+}) => {
+  const { matched, unmatched, unusedRows, ambiguous } = report;
+  const sources = outputSources ?? matched.map(({ item }) => item.relativePath);
+  const copies = sources.length - matched.length;
+  const allMatched = [unmatched, ambiguous, unusedRows, collisions, invalidNames, typeMismatches].every((list) => list.length === 0);
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-foreground mr-2">Pre-flight check</span>
+        <Badge variant={matched.length > 0 ? 'secondary' : 'destructive'} className="gap-1">
+          <CheckCircle className="h-3 w-3" />
+          {matched.length} of {totalImages} images matched
+        </Badge>
+        {copies > 0 && (
+          <Badge variant="secondary" className="gap-1">
+            <CopyPlus className="h-3 w-3" />
+            {copies} extra cop{copies === 1 ? 'y' : 'ies'} from repeated rows
+          </Badge>
+        )}
+        {unmatched.length > 0 && (
+          <Badge variant="destructive" className="gap-1">
+            <FileQuestion className="h-3 w-3" />
+            {unmatched.length} without mapping
+          </Badge>
+        )}
+        {ambiguous.length > 0 && (
+          <Badge variant="outline" className="gap-1 border-amber-500 text-amber-600">
+            <GitFork className="h-3 w-3" />
+            {ambiguous.length} ambiguous
+          </Badge>
+        )}
+        {collisions.length > 0 && (
+          <Badge variant="destructive" className="gap-1">
+            <Copy className="h-3 w-3" />
+            {collisions.length} name collision{collisions.length === 1 ? '' : 's'}
+          </Badge>
+        )}
+        {invalidNames.length > 0 && (
+          <Badge variant="destructive" className="gap-1">
+            <Ban className="h-3 w-3" />
+            {invalidNames.length} invalid name{invalidNames.length === 1 ? '' : 's'}
+          </Badge>
+        )}
+        {typeMismatches.length > 0 && (
+          <Badge variant="outline" className="gap-1 border-amber-500 text-amber-600">
+            <FileWarning className="h-3 w-3" />
+            {typeMismatches.length} extension mismatch{typeMismatches.length === 1 ? '' : 'es'}
+          </Badge>
+        )}
+        {unusedRows.length > 0 && (
+          <Badge variant="outline" className="gap-1">
+            <ListX className="h-3 w-3" />
+            {unusedRows.length} unused rows
+          </Badge>
+        )}
+      </div>
+
+      {matched.length === 0 && (
+        <p className="text-sm text-destructive flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4" />
+          No image matches any mapping row. Check the file names or enable more match modes.
+        </p>
+      )}
+
+      {!allMatched && (
+        <Accordion type="multiple" className="w-full">
+          {unmatched.length > 0 && (
+            <AccordionItem value="unmatched">
+              <AccordionTrigger className="py-2 text-sm">
+                Images with no mapping ({unmatched.length}) — these will not be in the output
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-1">
+                  {unmatched.slice(0, MAX_LISTED).map((image) => (
+                    <li key={image.id} className="truncate">{image.relativePath}</li>
+                  ))}
+                  <ListLimit count={unmatched.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {ambiguous.length > 0 && (
+            <AccordionItem value="ambiguous">
+              <AccordionTrigger className="py-2 text-sm">
+                Images matching more than one row ({ambiguous.length})
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-2">
+                  {ambiguous.slice(0, MAX_LISTED).map(({ item, match }) => (
+                    <li key={item.id}>
+                      <p className="font-medium truncate">{item.relativePath}</p>
+                      {match.outputs.map((candidate) => (
+                        <p key={candidate.mappingIndex} className="text-secondary truncate">
+                          Uses: {describeMatch(candidate)}
+                        </p>
+                      ))}
+                      {match.candidates.filter((candidate) => !match.outputs.includes(candidate)).map((candidate) => (
+                        <p key={candidate.mappingIndex} className="text-muted-foreground truncate">
+                          Also: {describeMatch(candidate)} → {candidate.entry.newName}
+                        </p>
+                      ))}
+                    </li>
+                  ))}
+                  <ListLimit count={ambiguous.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {collisions.length > 0 && (
+            <AccordionItem value="collisions">
+              <AccordionTrigger className="py-2 text-sm">
+                Output names used more than once ({collisions.length})
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-2">
+                  {collisions.slice(0, MAX_LISTED).map((collision) => (
+                    <li key={collision.indices[0]}>
+                      <p className="font-medium truncate">
+                        {collision.names[0]} × {collision.names.length}
+                        {collision.caseOnly && (
+                          <span className="ml-1 font-normal text-muted-foreground">
+                            (differ only by case: breaks on Windows and macOS)
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-muted-foreground truncate">
+                        From: {collision.indices.map((index) => sources[index]).join(', ')}
+                      </p>
+                    </li>
+                  ))}
+                  <ListLimit count={collisions.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {invalidNames.length > 0 && (
+            <AccordionItem value="invalid">
+              <AccordionTrigger className="py-2 text-sm">
+                Invalid output names ({invalidNames.length}) — edit the mapping or enable auto-fix
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-2">
+                  {invalidNames.slice(0, MAX_LISTED).map(({ name, issues }, index) => (
+                    <li key={index}>
+                      <p className="font-medium truncate">{name}</p>
+                      {issues.map((issue) => (
+                        <p key={issue} className="text-muted-foreground">{issue}</p>
+                      ))}
+                    </li>
+                  ))}
+                  <ListLimit count={invalidNames.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {typeMismatches.length > 0 && (
+            <AccordionItem value="type-mismatches">
+              <AccordionTrigger className="py-2 text-sm">
+                Extensions that disagree with the file type ({typeMismatches.length})
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-2">
+                  {typeMismatches.slice(0, MAX_LISTED).map(({ name, message }, index) => (
+                    <li key={index}>
+                      <p className="font-medium truncate">{name}</p>
+                      <p className="text-muted-foreground">{message}</p>
+                    </li>
+                  ))}
+                  <ListLimit count={typeMismatches.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+
+          {unusedRows.length > 0 && (
+            <AccordionItem value="unused">
+              <AccordionTrigger className="py-2 text-sm">
+                Mapping rows that matched no image ({unusedRows.length})
+              </AccordionTrigger>
+              <AccordionContent>
+                <ul className="max-h-48 overflow-y-auto text-xs space-y-1">
+                  {unusedRows.slice(0, MAX_LISTED).map(({ mappingIndex, entry }) => (
+                    <li key={mappingIndex} className="truncate">
+                      Row {mappingIndex + 1}: {entry.currentName} → {entry.newName}
+                    </li>
+                  ))}
+                  <ListLimit count={unusedRows.length} />
+                </ul>
+              </AccordionContent>
+            </AccordionItem>
+          )}
+        </Accordion>
+      )}
+    </div>
+  );
+};
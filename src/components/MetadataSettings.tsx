@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  METADATA_MODES,
+  parseKeywords,
+  type MetadataFields,
+  type MetadataMode,
+  type MetadataOptions,
+} from '@/lib/metadata';
+
+interface MetadataSettingsProps {
+  options: MetadataOptions;
+  onChange: (options: MetadataOptions) => void;
+  disabled?: boolean;
+}
+
+export const MetadataSettings: React.FC<MetadataSettingsProps> = ({ options, onChange, disabled }) => {
+  // Keep the typed text so separators are not swallowed while typing
+  const [keywordText, setKeywordText] = useState(options.fields.keywords.join(', '));
+
+  const updateFields = (changes: Partial<MetadataFields>) =>
+    onChange({ ...options, fields: { ...options.fields, ...changes } });
+
+  const textField = (field: 'title' | 'description' | 'copyright', label: string, placeholder: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`metadata-${field}`} className="w-24 shrink-0 font-normal">
+        {label}
+      </Label>
+      <Input
+        id={`metadata-${field}`}
+        value={options.fields[field]}
+        onChange={(e) => updateFields({ [field]: e.target.value })}
+        placeholder={placeholder}
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Select
+          value={options.mode}
+          onValueChange={(mode) => onChange({ ...options, mode: mode as MetadataMode })}
+          disabled={disabled}
+        >
+          <SelectTrigger className="w-56">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {METADATA_MODES.map(({ mode, label }) => (
+              <SelectItem key={mode} value={mode}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <span className="text-xs text-muted-foreground">
+          {METADATA_MODES.find((m) => m.mode === options.mode)?.description}
+        </span>
+      </div>
+
+      <div className="grid gap-2 md:grid-cols-2">
+        {textField('title', 'Title', 'Unchanged')}
+        {textField('copyright', 'Copyright', 'Unchanged')}
+        {textField('description', 'Description', 'Unchanged')}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="metadata-keywords" className="w-24 shrink-0 font-normal">
+            Keywords
+          </Label>
+          <Input
+            id="metadata-keywords"
+            value={keywordText}
+            onChange={(e) => {
+              setKeywordText(e.target.value);
+              updateFields({ keywords: parseKeywords(e.target.value) });
+            }}
+            placeholder="Comma-separated"
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Fields are written as XMP, and as IPTC in JPEGs. Title, description, copyright, keywords and alt text
+        columns in the mapping set them per image; keywords from both places are combined.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  OUTPUT_FORMATS,
+  supportedOutputFormats,
+  type LossyFormat,
+  type OutputFormat,
+  type OutputOptions,
+} from '@/lib/imageProcessing';
+
+interface OutputFormatSettingsProps {
+  options: OutputOptions;
+  onChange: (options: OutputOptions) => void;
+  disabled?: boolean;
+}
+
+const LOSSY_FORMATS: LossyFormat[] = ['jpeg', 'webp', 'avif'];
+
+// JPEG has no lossless mode
+const CAN_BE_LOSSLESS: LossyFormat[] = ['webp', 'avif'];
+
+const formatLabel = (format: OutputFormat) => OUTPUT_FORMATS.find((f) => f.format === format)?.label ?? format;
+
+export const OutputFormatSettings: React.FC<OutputFormatSettingsProps> = ({ options, onChange, disabled }) => {
+  const supported = useMemo(() => supportedOutputFormats(), []);
+
+  // Keeping the original format may write any of them
+  const tuned = options.format === 'original'
+    ? LOSSY_FORMATS.filter((format) => supported.has(format))
+    : LOSSY_FORMATS.filter((format) => format === options.format);
+
+  const updateSettings = (format: LossyFormat, changes: Partial<OutputOptions['settings'][LossyFormat]>) =>
+    onChange({
+      ...options,
+      settings: { ...options.settings, [format]: { ...options.settings[format], ...changes } },
+    });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="output-format" className="font-normal whitespace-nowrap">
+          Format
+        </Label>
+        <Select
+          value={options.format}
+          onValueChange={(format) => onChange({ ...options, format: format as OutputFormat })}
+          disabled={disabled}
+        >
+          <SelectTrigger id="output-format" className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OUTPUT_FORMATS.map(({ format, label }) => (
+              <SelectItem key={format} value={format} disabled={!supported.has(format)}>
+                {supported.has(format) ? label : `${label} (not supported by this browser)`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {options.format === 'png' && <span className="text-xs text-muted-foreground">PNG is always lossless</span>}
+      </div>
+
+      {tuned.map((format) => {
+        const { quality, lossless } = options.settings[format];
+        return (
+          <div key={format} className="flex flex-wrap items-center gap-x-6 gap-y-2">
+            <span className="w-12 text-sm text-foreground">{formatLabel(format)}</span>
+            <div className="flex items-center gap-3">
+              <Label className="font-normal text-muted-foreground">Quality</Label>
+              <Slider
+                value={[Math.round(quality * 100)]}
+                min={1}
+                max={100}
+                step={1}
+                onValueChange={([value]) => updateSettings(format, { quality: value / 100 })}
+                disabled={disabled || lossless}
+                className="w-40"
+              />
+              <span className="w-8 text-sm tabular-nums">{lossless ? '—' : Math.round(quality * 100)}</span>
+            </div>
+            {CAN_BE_LOSSLESS.includes(format) && (
+              <div className="flex items-center gap-2">
+                <Switch
+                  id={`lossless-${format}`}
+                  checked={lossless}
+                  onCheckedChange={(value) => updateSettings(format, { lossless: value })}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`lossless-${format}`} className="font-normal">
+                  Lossless
+                </Label>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
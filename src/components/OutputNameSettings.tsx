@@ -0,0 +1,117 @@
+import React from 'react';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  EXTENSION_POLICIES,
+  OS_PROFILES,
+  type ExtensionPolicy,
+  type NameOptions,
+  type OSProfile,
+} from '@/lib/filenames';
+
+interface OutputNameSettingsProps {
+  options: NameOptions;
+  onChange: (options: NameOptions) => void;
+  disabled?: boolean;
+}
+
+export const OutputNameSettings: React.FC<OutputNameSettingsProps> = ({ options, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+    <div className="flex items-center gap-2">
+      <Label htmlFor="name-profile" className="font-normal whitespace-nowrap">
+        Valid names for
+      </Label>
+      <Select
+        value={options.profile}
+        onValueChange={(profile) => onChange({ ...options, profile: profile as OSProfile })}
+        disabled={disabled}
+      >
+        <SelectTrigger id="name-profile" className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {OS_PROFILES.map(({ profile, label }) => (
+            <SelectItem key={profile} value={profile}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Label htmlFor="extension-policy" className="font-normal whitespace-nowrap">
+        Extension
+      </Label>
+      <Select
+        value={options.extensionPolicy}
+        onValueChange={(policy) => onChange({ ...options, extensionPolicy: policy as ExtensionPolicy })}
+        disabled={disabled}
+      >
+        <SelectTrigger
+          id="extension-policy"
+          className="w-40"
+          title={EXTENSION_POLICIES.find((p) => p.policy === options.extensionPolicy)?.description}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {EXTENSION_POLICIES.map(({ policy, label }) => (
+            <SelectItem key={policy} value={policy}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Switch
+        id="extension-lowercase"
+        checked={options.lowercaseExtension}
+        onCheckedChange={(lowercaseExtension) => onChange({ ...options, lowercaseExtension })}
+        disabled={disabled}
+      />
+      <Label htmlFor="extension-lowercase" className="font-normal">
+        Lowercase extension
+      </Label>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Switch
+        id="extension-jpeg-as-jpg"
+        checked={options.jpegAsJpg}
+        onCheckedChange={(jpegAsJpg) => onChange({ ...options, jpegAsJpg })}
+        disabled={disabled}
+      />
+      <Label htmlFor="extension-jpeg-as-jpg" className="font-normal">
+        .jpeg → .jpg
+      </Label>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Switch
+        id="name-auto-fix"
+        checked={options.autoFix}
+        onCheckedChange={(autoFix) => onChange({ ...options, autoFix })}
+        disabled={disabled}
+      />
+      <Label htmlFor="name-auto-fix" className="font-normal">
+        Auto-fix invalid names
+      </Label>
+    </div>
+
+    <div className="flex items-center gap-2">
+      <Switch
+        id="name-transliterate"
+        checked={options.transliterate}
+        onCheckedChange={(transliterate) => onChange({ ...options, transliterate })}
+        disabled={disabled}
+      />
+      <Label htmlFor="name-transliterate" className="font-normal">
+        Transliterate to ASCII
+      </Label>
+    </div>
+  </div>
+);
@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, Replace, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { MatchReportCard } from '@/components/MatchReportCard';
+import { findCollisions } from '@/lib/collisions';
+import type { CSVMapping } from '@/lib/mapping';
+import { buildMatchReport } from '@/lib/matching';
+import {
+  applyRule,
+  compileRule,
+  DEFAULT_REGEX_RULE,
+  loadRegexPresets,
+  saveRegexPresets,
+  type RegexPreset,
+  type RegexRule,
+} from '@/lib/regexRename';
+
+interface ImageFile {
+  file: File;
+  preview: string;
+  id: string;
+  relativePath: string;
+}
+
+interface RegexRenameProps {
+  images: ImageFile[];
+  onMappingChange: (mapping: CSVMapping[]) => void;
+}
+
+const PREVIEW_COUNT = 5;
+
+export const RegexRename: React.FC<RegexRenameProps> = ({ images, onMappingChange }) => {
+  const [rule, setRule] = useState<RegexRule>(DEFAULT_REGEX_RULE);
+  const [presets, setPresets] = useState<RegexPreset[]>(loadRegexPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const compiled = useMemo((): { regex?: RegExp; error?: string } => {
+    if (!rule.pattern) return {};
+    try {
+      return { regex: compileRule(rule) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid regular expression' };
+    }
+  }, [rule]);
+
+  // Mapping rows for every file the pattern renames
+  const mapping = useMemo((): CSVMapping[] => {
+    if (!compiled.regex) return [];
+    return images.flatMap((image) => {
+      const newName = applyRule(compiled.regex!, rule, image.file.name);
+      return newName === null ? [] : [{ currentName: image.relativePath, newName }];
+    });
+  }, [compiled, rule, images]);
+
+  const report = useMemo(
+    () => buildMatchReport(images, (image) => image.relativePath, mapping, ['exact']),
+    [images, mapping]
+  );
+  const collisions = useMemo(() => findCollisions(mapping.map((entry) => entry.newName)), [mapping]);
+
+  const updateRule = (changes: Partial<RegexRule>) => setRule((current) => ({ ...current, ...changes }));
+
+  const storePresets = (next: RegexPreset[]) => {
+    setPresets(next);
+    saveRegexPresets(next);
+  };
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    storePresets([...presets.filter((preset) => preset.name !== name), { ...rule, name }]);
+    setPresetName('');
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = presets.find((p) => p.name === name);
+    if (!preset) return;
+    const { pattern, replacement, caseInsensitive, includeExtension } = preset;
+    setRule({ pattern, replacement, caseInsensitive, includeExtension });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="regex-pattern">Find (regular expression)</Label>
+          <Input
+            id="regex-pattern"
+            value={rule.pattern}
+            onChange={(e) => updateRule({ pattern: e.target.value })}
+            className="font-mono"
+            placeholder="^IMG_(\d+)$"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="regex-replacement">Replace with</Label>
+          <Input
+            id="regex-replacement"
+            value={rule.replacement}
+            onChange={(e) => updateRule({ replacement: e.target.value })}
+            className="font-mono"
+            placeholder="product-$1"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id="regex-case-insensitive"
+            checked={rule.caseInsensitive}
+            onCheckedChange={(caseInsensitive) => updateRule({ caseInsensitive })}
+          />
+          <Label htmlFor="regex-case-insensitive" className="font-normal">
+            Ignore case
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch
+            id="regex-include-extension"
+            checked={rule.includeExtension}
+            onCheckedChange={(includeExtension) => updateRule({ includeExtension })}
+          />
+          <Label htmlFor="regex-include-extension" className="font-normal">
+            Match extension too
+          </Label>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value="" onValueChange={loadPreset} disabled={presets.length === 0}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder={presets.length ? 'Load preset' : 'No saved presets'} />
+          </SelectTrigger>
+          <SelectContent>
+            {presets.map((preset) => (
+              <SelectItem key={preset.name} value={preset.name}>
+                {preset.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && savePreset()}
+          placeholder="Preset name"
+          className="w-40"
+        />
+        <Button variant="outline" size="sm" onClick={savePreset} disabled={!presetName.trim() || !compiled.regex}>
+          <Save className="h-4 w-4 mr-1" />
+          Save
+        </Button>
+        {presets.some((preset) => preset.name === presetName.trim()) && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => storePresets(presets.filter((preset) => preset.name !== presetName.trim()))}
+            className="text-destructive hover:text-destructive"
+          >
+            <Trash2 className="h-4 w-4 mr-1" />
+            Delete
+          </Button>
+        )}
+      </div>
+
+      {compiled.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{compiled.error}</AlertDescription>
+        </Alert>
+      )}
+
+      {images.length === 0 ? (
+        <p className="text-muted-foreground text-sm text-center py-4">
+          Upload images to preview the renamed files
+        </p>
+      ) : (
+        compiled.regex && (
+          <Card className="p-4 shadow-card space-y-3">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div className="font-medium text-muted-foreground">Current Name</div>
+              <div className="font-medium text-muted-foreground">New Name</div>
+              {mapping.slice(0, PREVIEW_COUNT).map(({ currentName, newName }, index) => (
+                <React.Fragment key={index}>
+                  <div className="text-foreground truncate">{currentName}</div>
+                  <div className="text-foreground truncate">{newName}</div>
+                </React.Fragment>
+              ))}
+            </div>
+            {mapping.length > PREVIEW_COUNT && (
+              <p className="text-center text-muted-foreground text-sm">
+                ... and {mapping.length - PREVIEW_COUNT} more images
+              </p>
+            )}
+            <MatchReportCard report={report} totalImages={images.length} collisions={collisions} />
+            <Button
+              onClick={() => onMappingChange(mapping)}
+              disabled={mapping.length === 0}
+              className="w-full bg-gradient-primary"
+            >
+              <Replace className="h-4 w-4 mr-2" />
+              Use names for {mapping.length} of {images.length} images
+            </Button>
+          </Card>
+        )
+      )}
+    </div>
+  );
+};
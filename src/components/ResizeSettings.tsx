@@ -0,0 +1,88 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FIT_MODES, type FitMode, type ResizeOptions } from '@/lib/imageProcessing';
+
+interface ResizeSettingsProps {
+  options: ResizeOptions;
+  onChange: (options: ResizeOptions) => void;
+  disabled?: boolean;
+}
+
+export const ResizeSettings: React.FC<ResizeSettingsProps> = ({ options, onChange, disabled }) => {
+  const active = options.mode !== 'none';
+  const dimension = (key: 'width' | 'height', label: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={`resize-${key}`} className="font-normal">
+        {label}
+      </Label>
+      <Input
+        id={`resize-${key}`}
+        type="number"
+        min={0}
+        value={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+        className="w-24"
+        disabled={disabled}
+      />
+    </div>
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+      <Select
+        value={options.mode}
+        onValueChange={(mode) => onChange({ ...options, mode: mode as FitMode })}
+        disabled={disabled}
+      >
+        <SelectTrigger className="w-40" title={FIT_MODES.find((m) => m.mode === options.mode)?.description}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FIT_MODES.map(({ mode, label }) => (
+            <SelectItem key={mode} value={mode}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {active && (
+        <>
+          {dimension('width', options.mode === 'max' ? 'Max width' : 'Width')}
+          {dimension('height', options.mode === 'max' ? 'Max height' : 'Height')}
+
+          {options.mode === 'contain' && (
+            <div className="flex items-center gap-2">
+              <Label htmlFor="resize-background" className="font-normal">
+                Padding
+              </Label>
+              <input
+                id="resize-background"
+                type="color"
+                value={options.background}
+                onChange={(e) => onChange({ ...options, background: e.target.value })}
+                className="h-9 w-12 cursor-pointer rounded border bg-background"
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="resize-high-quality"
+              checked={options.highQuality}
+              onCheckedChange={(highQuality) => onChange({ ...options, highQuality })}
+              disabled={disabled}
+            />
+            <Label htmlFor="resize-high-quality" className="font-normal">
+              High-quality downscaling
+            </Label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
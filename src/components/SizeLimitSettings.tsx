@@ -0,0 +1,51 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import type { SizeLimitOptions } from '@/lib/imageProcessing';
+
+interface SizeLimitSettingsProps {
+  options: SizeLimitOptions;
+  onChange: (options: SizeLimitOptions) => void;
+  disabled?: boolean;
+}
+
+export const SizeLimitSettings: React.FC<SizeLimitSettingsProps> = ({ options, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+    <div className="flex items-center gap-2">
+      <Switch
+        id="size-limit-enabled"
+        checked={options.enabled}
+        onCheckedChange={(enabled) => onChange({ ...options, enabled })}
+        disabled={disabled}
+      />
+      <Label htmlFor="size-limit-enabled" className="font-normal">
+        Limit file size to
+      </Label>
+      <Input
+        id="size-limit-kb"
+        type="number"
+        min={1}
+        value={Math.round(options.maxBytes / 1024)}
+        onChange={(e) => onChange({ ...options, maxBytes: Math.max(1, Math.floor(Number(e.target.value) || 0)) * 1024 })}
+        className="w-24"
+        disabled={disabled || !options.enabled}
+      />
+      <span className="text-sm text-muted-foreground">KB</span>
+    </div>
+
+    {options.enabled && (
+      <div className="flex items-center gap-2">
+        <Switch
+          id="size-limit-downscale"
+          checked={options.allowDownscale}
+          onCheckedChange={(allowDownscale) => onChange({ ...options, allowDownscale })}
+          disabled={disabled}
+        />
+        <Label htmlFor="size-limit-downscale" className="font-normal">
+          Downscale when lowering quality is not enough
+        </Label>
+      </div>
+    )}
+  </div>
+);
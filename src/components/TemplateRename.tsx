@@ -0,0 +1,211 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertCircle, Loader2, Wand2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { CSVMapping } from '@/lib/mapping';
+import {
+  collectTemplateContexts,
+  parseTemplate,
+  renderTemplate,
+  TEMPLATE_TOKENS,
+  type ParsedTemplate,
+} from '@/lib/template';
+
+interface ImageFile {
+  file: File;
+  preview: string;
+  id: string;
+  relativePath: string;
+}
+
+interface TemplateRenameProps {
+  images: ImageFile[];
+  onMappingChange: (mapping: CSVMapping[]) => void;
+}
+
+type ImageOrder = 'upload' | 'name' | 'date';
+
+const PREVIEW_COUNT = 5;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const orderImages = (images: ImageFile[], order: ImageOrder): ImageFile[] => {
+  switch (order) {
+    case 'name':
+      return [...images].sort((a, b) => collator.compare(a.relativePath, b.relativePath));
+    case 'date':
+      return [...images].sort((a, b) => a.file.lastModified - b.file.lastModified);
+    default:
+      return images;
+  }
+};
+
+export const TemplateRename: React.FC<TemplateRenameProps> = ({ images, onMappingChange }) => {
+  const [template, setTemplate] = useState('{name}_{index:03}.{ext}');
+  const [start, setStart] = useState(1);
+  const [step, setStep] = useState(1);
+  const [order, setOrder] = useState<ImageOrder>('upload');
+  const [preview, setPreview] = useState<{ from: string; to: string }[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const parsed = useMemo((): { template?: ParsedTemplate; error?: string } => {
+    try {
+      return { template: parseTemplate(template) };
+    } catch (err) {
+      return { error: err instanceof Error ? err.message : 'Invalid template' };
+    }
+  }, [template]);
+
+  const ordered = useMemo(() => orderImages(images, order), [images, order]);
+
+  // Live preview of the first few names, including dimensions and EXIF
+  useEffect(() => {
+    if (!parsed.template) {
+      setPreview([]);
+      return;
+    }
+    let cancelled = false;
+    const files = ordered.slice(0, PREVIEW_COUNT).map((image) => image.file);
+    collectTemplateContexts(files, parsed.template, { start, step }).then((contexts) => {
+      if (cancelled) return;
+      setPreview(
+        contexts.map((context, i) => ({ from: ordered[i].relativePath, to: renderTemplate(parsed.template!, context) }))
+      );
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [parsed, ordered, start, step]);
+
+  const generateMapping = async () => {
+    if (!parsed.template) return;
+    setIsGenerating(true);
+    try {
+      const contexts = await collectTemplateContexts(
+        ordered.map((image) => image.file),
+        parsed.template,
+        { start, step }
+      );
+      onMappingChange(
+        contexts.map((context, i) => ({
+          currentName: ordered[i].relativePath,
+          newName: renderTemplate(parsed.template!, context),
+        }))
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const insertToken = (token: string) => setTemplate((current) => `${current}{${token}}`);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="name-template">Name template</Label>
+        <Input
+          id="name-template"
+          value={template}
+          onChange={(e) => setTemplate(e.target.value)}
+          className="font-mono"
+          placeholder="{sku}_{index:03}_{width}x{height}.{ext}"
+        />
+        <div className="flex flex-wrap gap-1">
+          {TEMPLATE_TOKENS.map(({ token, description }) => (
+            <Badge
+              key={token}
+              variant="outline"
+              className="cursor-pointer font-mono hover:bg-muted"
+              title={description}
+              onClick={() => insertToken(token)}
+            >
+              {`{${token}}`}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-start">Counter start</Label>
+          <Input
+            id="template-start"
+            type="number"
+            value={start}
+            onChange={(e) => setStart(Math.floor(Number(e.target.value) || 0))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-step">Step</Label>
+          <Input
+            id="template-step"
+            type="number"
+            value={step}
+            onChange={(e) => setStep(Math.floor(Number(e.target.value) || 1))}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="template-order">Number images by</Label>
+          <Select value={order} onValueChange={(value) => setOrder(value as ImageOrder)}>
+            <SelectTrigger id="template-order">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="upload">Upload order</SelectItem>
+              <SelectItem value="name">File name</SelectItem>
+              <SelectItem value="date">File date</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {parsed.error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{parsed.error}</AlertDescription>
+        </Alert>
+      )}
+
+      {images.length === 0 ? (
+        <p className="text-muted-foreground text-sm text-center py-4">
+          Upload images to preview the generated names
+        </p>
+      ) : (
+        <Card className="p-4 shadow-card space-y-3">
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="font-medium text-muted-foreground">Current Name</div>
+            <div className="font-medium text-muted-foreground">New Name</div>
+            {preview.map(({ from, to }, index) => (
+              <React.Fragment key={index}>
+                <div className="text-foreground truncate">{from}</div>
+                <div className="text-foreground truncate">{to}</div>
+              </React.Fragment>
+            ))}
+          </div>
+          {images.length > PREVIEW_COUNT && (
+            <p className="text-center text-muted-foreground text-sm">
+              ... and {images.length - PREVIEW_COUNT} more images
+            </p>
+          )}
+          <Button
+            onClick={generateMapping}
+            disabled={!parsed.template || isGenerating}
+            className="w-full bg-gradient-primary"
+          >
+            {isGenerating ? (
+              <Loader2 className="h-4 w-4 animate-spin mr-2" />
+            ) : (
+              <Wand2 className="h-4 w-4 mr-2" />
+            )}
+            Generate mapping for {images.length} images
+          </Button>
+        </Card>
+      )}
+    </div>
+  );
+};
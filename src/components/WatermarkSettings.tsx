@@ -0,0 +1,234 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { imageSize, loadUprightImage, loadWatermarkLogo } from '@/lib/imageProcessing';
+import { drawWatermark, type WatermarkOptions } from '@/lib/watermark';
+import { AnchorPicker } from '@/components/AnchorPicker';
+
+interface SampleImage {
+  id: string;
+  file: File;
+  relativePath: string;
+}
+
+interface WatermarkSettingsProps {
+  options: WatermarkOptions;
+  onChange: (options: WatermarkOptions) => void;
+  /** Images the watermark can be previewed on */
+  samples: SampleImage[];
+  disabled?: boolean;
+}
+
+const PREVIEW_SIZE = 360;
+const MAX_SAMPLES = 50;
+
+export const WatermarkSettings: React.FC<WatermarkSettingsProps> = ({ options, onChange, samples, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
+  const [sampleId, setSampleId] = useState<string | null>(null);
+
+  const sample = samples.find((image) => image.id === sampleId) ?? samples[0];
+  const update = (changes: Partial<WatermarkOptions>) => onChange({ ...options, ...changes });
+
+  // Draw the sample scaled down; sizes are relative, so the preview is faithful
+  useEffect(() => {
+    if (!options.enabled || !sample) return;
+    let cancelled = false;
+    Promise.all([loadUprightImage(sample.file), loadWatermarkLogo(options)])
+      .then(([img, logo]) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        const { width, height } = imageSize(img);
+        const scale = Math.min(1, PREVIEW_SIZE / Math.max(width, height));
+        canvas.width = Math.max(1, Math.round(width * scale));
+        canvas.height = Math.max(1, Math.round(height * scale));
+        const ctx = canvas.getContext('2d')!;
+        ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+        drawWatermark(ctx, canvas.width, canvas.height, options, logo);
+      })
+      .catch(() => {
+        // An undecodable sample simply shows no preview
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [options, sample]);
+
+  const selectLogo = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (options.logo) URL.revokeObjectURL(options.logo);
+    update({ kind: 'logo', logo: URL.createObjectURL(file) });
+    e.target.value = '';
+  };
+
+  const percentInput = (id: string, label: string, key: 'offsetX' | 'offsetY') => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={id} className="font-normal whitespace-nowrap">
+        {label}
+      </Label>
+      <Input
+        id={id}
+        type="number"
+        min={0}
+        max={50}
+        value={options[key]}
+        onChange={(e) => update({ [key]: Math.max(0, Number(e.target.value) || 0) })}
+        className="w-20"
+        disabled={disabled || options.tile}
+      />
+      <span className="text-sm text-muted-foreground">%</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="watermark-enabled"
+          checked={options.enabled}
+          onCheckedChange={(enabled) => update({ enabled })}
+          disabled={disabled}
+        />
+        <Label htmlFor="watermark-enabled" className="font-normal">
+          Add a watermark
+        </Label>
+        {options.enabled && (
+          <span className="text-xs text-muted-foreground">
+            A mapping column with "no" skips it for single images
+          </span>
+        )}
+      </div>
+
+      {options.enabled && (
+        <div className="grid gap-4 md:grid-cols-[1fr_auto]">
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <Select
+                value={options.kind}
+                onValueChange={(kind) => update({ kind: kind as WatermarkOptions['kind'] })}
+                disabled={disabled}
+              >
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">Text</SelectItem>
+                  <SelectItem value="logo">Logo</SelectItem>
+                </SelectContent>
+              </Select>
+
+              {options.kind === 'text' ? (
+                <>
+                  <Input
+                    value={options.text}
+                    onChange={(e) => update({ text: e.target.value })}
+                    className="w-48"
+                    placeholder="Watermark text"
+                    disabled={disabled}
+                  />
+                  <input
+                    type="color"
+                    value={options.color}
+                    onChange={(e) => update({ color: e.target.value })}
+                    className="h-9 w-12 cursor-pointer rounded border bg-background"
+                    title="Text colour"
+                    disabled={disabled}
+                  />
+                </>
+              ) : (
+                <>
+                  <input ref={logoInputRef} type="file" accept="image/*" className="hidden" onChange={selectLogo} />
+                  <Button variant="outline" size="sm" onClick={() => logoInputRef.current?.click()} disabled={disabled}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {options.logo ? 'Replace logo' : 'Upload logo'}
+                  </Button>
+                </>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+              <div className="flex items-center gap-3">
+                <Label className="font-normal">Size</Label>
+                <Slider
+                  value={[options.size]}
+                  min={1}
+                  max={60}
+                  step={1}
+                  onValueChange={([size]) => update({ size })}
+                  className="w-32"
+                  disabled={disabled}
+                />
+                <span className="w-10 text-sm tabular-nums">{options.size}%</span>
+              </div>
+              <div className="flex items-center gap-3">
+                <Label className="font-normal">Opacity</Label>
+                <Slider
+                  value={[Math.round(options.opacity * 100)]}
+                  min={5}
+                  max={100}
+                  step={5}
+                  onValueChange={([opacity]) => update({ opacity: opacity / 100 })}
+                  className="w-32"
+                  disabled={disabled}
+                />
+                <span className="w-10 text-sm tabular-nums">{Math.round(options.opacity * 100)}%</span>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+              <AnchorPicker
+                value={options.position}
+                onChange={(position) => update({ position })}
+                label="Watermark position"
+                disabled={disabled || options.tile}
+              />
+              {percentInput('watermark-offset-x', 'Offset X', 'offsetX')}
+              {percentInput('watermark-offset-y', 'Offset Y', 'offsetY')}
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="watermark-tile"
+                  checked={options.tile}
+                  onCheckedChange={(tile) => update({ tile })}
+                  disabled={disabled}
+                />
+                <Label htmlFor="watermark-tile" className="font-normal">
+                  Tile across the image
+                </Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            {sample ? (
+              <>
+                {samples.length > 1 && (
+                  <Select value={sample.id} onValueChange={setSampleId}>
+                    <SelectTrigger className="w-full max-w-[360px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {samples.slice(0, MAX_SAMPLES).map((image) => (
+                        <SelectItem key={image.id} value={image.id}>
+                          {image.relativePath}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <canvas ref={canvasRef} className="rounded-lg border bg-muted max-w-full" />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">Upload images to preview the watermark</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import JSZip from 'jszip';
+import { pathSegments, splitExtension } from '@/lib/filenames';
+import { mimeTypeForExtension } from '@/lib/imageProcessing';
+import { formatBytes } from '@/lib/utils';
+
+// Reading image batches out of ZIP archives, so shoots delivered as a ZIP
+// can be dropped without extracting them first
+
+export const ARCHIVE_EXTENSIONS = ['.zip'];
+
+const IMPORTABLE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'bmp', 'webp']);
+
+// Everything is unpacked into memory, so a huge or crafted archive must not
+// be read to the end
+const MAX_ARCHIVE_ENTRIES = 10_000;
+const MAX_ARCHIVE_BYTES = 1024 ** 3;
+
+export interface ArchiveEntry {
+  file: File;
+  /** Path inside the archive, e.g. "shoot/raw/IMG_001.jpg" */
+  path: string;
+}
+
+export interface SkippedEntry {
+  path: string;
+  reason: string;
+}
+
+export interface ArchiveImportResult {
+  images: ArchiveEntry[];
+  skipped: SkippedEntry[];
+}
+
+export function isArchiveFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+// Why an entry is not imported, or null for images
+const skipReason = (path: string): string | null => {
+  const segments = pathSegments(path);
+  const name = segments[segments.length - 1] ?? '';
+  if (segments.includes('__MACOSX') || name === '.DS_Store' || name.startsWith('._')) {
+    return 'macOS metadata';
+  }
+  if (name === 'Thumbs.db' || name === 'desktop.ini') {
+    return 'Windows metadata';
+  }
+  const ext = splitExtension(name)[1].toLowerCase();
+  if (ext === 'zip') {
+    return 'Nested archives are not opened';
+  }
+  return IMPORTABLE_EXTENSIONS.has(ext) ? null : 'Not a supported image type';
+};
+
+// JSZip streams entries internally but leaves internalStream out of its types
+type StreamingEntry = JSZip.JSZipObject & {
+  internalStream(type: 'uint8array'): JSZip.JSZipStreamHelper<Uint8Array>;
+};
+
+// Unpack an entry, giving up as soon as it goes past `budget` bytes; the size
+// recorded in the archive is not trusted
+const readEntry = (entry: JSZip.JSZipObject, budget: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const stream = (entry as StreamingEntry).internalStream('uint8array');
+    stream
+      .on('data', (chunk) => {
+        size += chunk.length;
+        if (size > budget) {
+          stream.pause();
+          reject(new Error(`The archive unpacks to more than ${formatBytes(MAX_ARCHIVE_BYTES)}`));
+        } else {
+          chunks.push(chunk);
+        }
+      })
+      .on('error', reject)
+      .on('end', () => resolve(new Blob(chunks)))
+      .resume();
+  });
+
+/**
+ * Extract the image entries of a ZIP; everything else is reported as skipped.
+ * Archives with too many entries or too much data are rejected.
+ */
+export async function readImageArchive(archive: Blob): Promise<ArchiveImportResult> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(archive);
+  } catch {
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const entries = Object.values(zip.files).filter((entry) => !entry.dir);
+  if (entries.length > MAX_ARCHIVE_ENTRIES) {
+    throw new Error(`The archive has ${entries.length} entries; at most ${MAX_ARCHIVE_ENTRIES} are read`);
+  }
+
+  const result: ArchiveImportResult = { images: [], skipped: [] };
+  let unpacked = 0;
+
+  for (const entry of entries) {
+    const path = pathSegments(entry.name).join('/');
+    const reason = skipReason(path);
+    if (reason) {
+      result.skipped.push({ path, reason });
+      continue;
+    }
+
+    const name = path.split('/').pop()!;
+    const blob = await readEntry(entry, MAX_ARCHIVE_BYTES - unpacked);
+    unpacked += blob.size;
+    result.images.push({
+      file: new File([blob], name, {
+        type: mimeTypeForExtension(splitExtension(name)[1]),
+        lastModified: entry.date.getTime(),
+      }),
+      path,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,92 @@
+import { splitExtension } from '@/lib/filenames';
+
+// Output names are compared case-insensitively (and Unicode-normalised)
+// because Windows and macOS file systems treat "Shot.jpg" and "shot.JPG" as
+// the same file, so the ZIP would extract with one silently overwritten.
+
+export type CollisionPolicy = 'fail' | 'suffix' | 'keep-first' | 'keep-last';
+
+export const COLLISION_POLICIES: { policy: CollisionPolicy; label: string; description: string }[] = [
+  { policy: 'fail', label: 'Fail', description: 'Do not process until collisions are fixed' },
+  { policy: 'suffix', label: 'Add _1, _2 suffixes', description: 'Keep every image under a unique name' },
+  { policy: 'keep-first', label: 'Keep first', description: 'Skip later images with the same name' },
+  { policy: 'keep-last', label: 'Keep last', description: 'Skip earlier images with the same name' },
+];
+
+export interface Collision {
+  /** Names as produced by the mapping, in output order */
+  names: string[];
+  /** Positions of the colliding outputs */
+  indices: number[];
+  /** True when the names only differ by letter case */
+  caseOnly: boolean;
+}
+
+export interface ResolvedName {
+  /** Final output name, or null when the output is dropped */
+  name: string | null;
+  note?: string;
+}
+
+export const collisionKey = (name: string): string => name.normalize('NFC').toLowerCase();
+
+export function findCollisions(names: string[]): Collision[] {
+  const groups = new Map<string, number[]>();
+  names.forEach((name, index) => {
+    const key = collisionKey(name);
+    const group = groups.get(key);
+    if (group) group.push(index);
+    else groups.set(key, [index]);
+  });
+
+  const collisions: Collision[] = [];
+  for (const indices of groups.values()) {
+    if (indices.length < 2) continue;
+    const groupNames = indices.map((index) => names[index]);
+    collisions.push({
+      names: groupNames,
+      indices,
+      caseOnly: new Set(groupNames).size > 1,
+    });
+  }
+  return collisions;
+}
+
+/**
+ * Apply a collision policy to the planned output names. The `fail` policy
+ * leaves names untouched; callers must refuse to run while collisions exist.
+ */
+export function resolveCollisions(names: string[], policy: CollisionPolicy): ResolvedName[] {
+  const resolved: ResolvedName[] = names.map((name) => ({ name }));
+  if (policy === 'fail') return resolved;
+
+  const taken = new Set(names.map(collisionKey));
+
+  for (const { indices } of findCollisions(names)) {
+    const keep = policy === 'keep-last' ? indices[indices.length - 1] : indices[0];
+
+    for (const index of indices) {
+      if (index === keep) continue;
+
+      if (policy === 'suffix') {
+        const [base, ext] = splitExtension(names[index]);
+        let counter = indices.indexOf(index);
+        let candidate: string;
+        // Skip suffixes that would collide with another planned name
+        do {
+          candidate = `${base}_${counter}${ext ? `.${ext}` : ''}`;
+          counter++;
+        } while (taken.has(collisionKey(candidate)));
+        taken.add(collisionKey(candidate));
+        resolved[index] = { name: candidate, note: `Renamed from ${names[index]} to avoid a name collision` };
+      } else {
+        resolved[index] = {
+          name: null,
+          note: `Skipped: ${names[keep]} is already used by another image (${policy === 'keep-first' ? 'keep first' : 'keep last'})`,
+        };
+      }
+    }
+  }
+
+  return resolved;
+}
@@ -0,0 +1,129 @@
+import { anchorBox, type Anchor, type Rect } from '@/lib/geometry';
+
+// Crop stage of the canvas pipeline, run before resizing. A manual rectangle
+// from the mapping takes the place of the automatic trim; the aspect ratio is
+// then cut from whatever area is left.
+
+export type CropAspect = 'none' | '1:1' | '4:5' | '16:9';
+
+export const CROP_ASPECTS: { aspect: CropAspect; label: string; ratio: number }[] = [
+  { aspect: 'none', label: 'Any ratio', ratio: 0 },
+  { aspect: '1:1', label: 'Square (1:1)', ratio: 1 },
+  { aspect: '4:5', label: 'Portrait (4:5)', ratio: 4 / 5 },
+  { aspect: '16:9', label: 'Widescreen (16:9)', ratio: 16 / 9 },
+];
+
+export interface CropOptions {
+  aspect: CropAspect;
+  /** Which part of the image an aspect crop keeps */
+  anchor: Anchor;
+  /** Cut away uniform borders, such as the white around product shots */
+  trim: boolean;
+  /** Largest per-channel difference from the border colour still counted as border (0-255) */
+  tolerance: number;
+  /** Manual crop in source pixels; set per image from the mapping */
+  rect: Rect | null;
+}
+
+export const DEFAULT_CROP_OPTIONS: CropOptions = {
+  aspect: 'none',
+  anchor: 'center',
+  trim: false,
+  tolerance: 16,
+  rect: null,
+};
+
+export const aspectRatio = (aspect: CropAspect): number =>
+  CROP_ASPECTS.find((a) => a.aspect === aspect)?.ratio ?? 0;
+
+export const cropActive = (options: CropOptions): boolean =>
+  options.aspect !== 'none' || options.trim || options.rect !== null;
+
+/** Largest rectangle of the given width/height ratio inside `area`, placed at `anchor` */
+export function aspectCrop(area: Rect, ratio: number, anchor: Anchor): Rect {
+  if (!ratio) return area;
+  const width = Math.min(area.width, Math.round(area.height * ratio));
+  const height = Math.min(area.height, Math.round(width / ratio));
+  const { x, y } = anchorBox(anchor, area.width, area.height, width, height);
+  return { x: area.x + Math.round(x), y: area.y + Math.round(y), width, height };
+}
+
+/** `rect` limited to a `width` x `height` image and rounded to whole pixels; null when nothing is left */
+export function clampRect(rect: Rect, width: number, height: number): Rect | null {
+  const x = Math.max(0, Math.round(rect.x));
+  const y = Math.max(0, Math.round(rect.y));
+  const right = Math.min(width, Math.round(rect.x + rect.width));
+  const bottom = Math.min(height, Math.round(rect.y + rect.height));
+  if (right <= x || bottom <= y) return null;
+  return { x, y, width: right - x, height: bottom - y };
+}
+
+interface Pixels {
+  data: Uint8ClampedArray;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounds of everything that differs from the top-left pixel's colour. The
+ * whole image is returned when it is a single colour.
+ */
+export function findTrimRect({ data, width, height }: Pixels, tolerance: number): Rect {
+  const border = data.slice(0, 4);
+  const isContent = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    // Fully transparent pixels match a transparent border whatever their colour
+    if (border[3] === 0 && data[i + 3] === 0) return false;
+    return (
+      Math.abs(data[i] - border[0]) > tolerance ||
+      Math.abs(data[i + 1] - border[1]) > tolerance ||
+      Math.abs(data[i + 2] - border[2]) > tolerance ||
+      Math.abs(data[i + 3] - border[3]) > tolerance
+    );
+  };
+  const rowHasContent = (y: number) => {
+    for (let x = 0; x < width; x++) if (isContent(x, y)) return true;
+    return false;
+  };
+  const columnHasContent = (x: number, top: number, bottom: number) => {
+    for (let y = top; y <= bottom; y++) if (isContent(x, y)) return true;
+    return false;
+  };
+
+  let top = 0;
+  while (top < height && !rowHasContent(top)) top++;
+  if (top === height) return { x: 0, y: 0, width, height };
+  let bottom = height - 1;
+  while (bottom > top && !rowHasContent(bottom)) bottom--;
+  let left = 0;
+  while (left < width - 1 && !columnHasContent(left, top, bottom)) left++;
+  let right = width - 1;
+  while (right > left && !columnHasContent(right, top, bottom)) right--;
+
+  return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+}
+
+/**
+ * Area of a `width` x `height` image that the crop keeps. `readPixels` is
+ * only called when trimming needs to look at the image.
+ */
+export function planCrop(width: number, height: number, options: CropOptions, readPixels: () => Pixels): Rect {
+  const whole = { x: 0, y: 0, width, height };
+  const area = options.rect
+    ? clampRect(options.rect, width, height) ?? whole
+    : options.trim
+      ? findTrimRect(readPixels(), options.tolerance)
+      : whole;
+  return aspectCrop(area, aspectRatio(options.aspect), options.anchor);
+}
+
+/** Read a crop rectangle written as "x,y,width,height"; null when malformed */
+export function parseCropRect(value: string): Rect | null {
+  const parts = value.split(/[,;\s]+/).filter(Boolean).map(Number);
+  if (parts.length !== 4 || parts.some((n) => !Number.isFinite(n) || n < 0)) return null;
+  const [x, y, width, height] = parts;
+  return width > 0 && height > 0 ? { x, y, width, height } : null;
+}
+
+export const formatCropRect = ({ x, y, width, height }: Rect): string =>
+  [x, y, width, height].map((n) => Math.round(n)).join(',');
@@ -0,0 +1,246 @@
+// RFC 4180 CSV tokenizer. Handles quoted fields, embedded delimiters and
+// newlines, escaped quotes ("") and CRLF/LF/CR line endings. Malformed input
+// is reported with its line and column but never silently dropped.
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+
+export interface CSVRecord {
+  fields: string[];
+  /** 1-based line on which the record starts */
+  line: number;
+}
+
+export interface CSVParseError {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface CSVParseResult {
+  records: CSVRecord[];
+  errors: CSVParseError[];
+  delimiter: string;
+}
+
+interface CSVTokenizerHandlers {
+  onRecord: (record: CSVRecord) => void;
+  onError: (error: CSVParseError) => void;
+}
+
+type TokenizerState = 'fieldStart' | 'unquoted' | 'quoted' | 'quoteInQuoted';
+
+/**
+ * Incremental tokenizer: feed it chunks of text with `write` and call `end`
+ * once the input is exhausted. Chunks may split records, quotes or CRLF pairs
+ * at any position.
+ */
+export function createCSVTokenizer(delimiter: string, handlers: CSVTokenizerHandlers) {
+  let state: TokenizerState = 'fieldStart';
+  let field = '';
+  let fields: string[] = [];
+  let line = 1;
+  let column = 0;
+  let recordLine = 1;
+  let quoteLine = 1;
+  let quoteColumn = 1;
+  let skipLineFeed = false;
+  let started = false;
+
+  const endField = () => {
+    fields.push(field);
+    field = '';
+    state = 'fieldStart';
+  };
+
+  const endRecord = () => {
+    endField();
+    // A lone empty field is a blank line, not a record
+    if (!(fields.length === 1 && fields[0] === '')) {
+      handlers.onRecord({ fields, line: recordLine });
+    }
+    fields = [];
+  };
+
+  const write = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const ch = chunk[i];
+
+      if (!started) {
+        started = true;
+        if (ch === '\uFEFF') continue;
+      }
+
+      // Second half of a CRLF pair: the line was already counted on the CR
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (ch === '\n') {
+          if (state === 'quoted') field += ch;
+          continue;
+        }
+      }
+
+      const isNewline = ch === '\n' || ch === '\r';
+      column++;
+
+      if (state === 'fieldStart' && fields.length === 0) {
+        recordLine = line;
+      }
+
+      switch (state) {
+        case 'fieldStart':
+          if (ch === '"') {
+            state = 'quoted';
+            quoteLine = line;
+            quoteColumn = column;
+          } else if (ch === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endRecord();
+          } else {
+            field += ch;
+            state = 'unquoted';
+          }
+          break;
+
+        case 'unquoted':
+          if (ch === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endRecord();
+          } else {
+            if (ch === '"') {
+              handlers.onError({ line, column, message: 'Unexpected quote in unquoted field' });
+            }
+            field += ch;
+          }
+          break;
+
+        case 'quoted':
+          if (ch === '"') {
+            state = 'quoteInQuoted';
+          } else {
+            field += ch;
+          }
+          break;
+
+        case 'quoteInQuoted':
+          if (ch === '"') {
+            field += '"';
+            state = 'quoted';
+          } else if (ch === delimiter) {
+            endField();
+          } else if (isNewline) {
+            endRecord();
+          } else {
+            handlers.onError({ line, column, message: 'Unexpected character after closing quote' });
+            field += ch;
+            state = 'unquoted';
+          }
+          break;
+      }
+
+      if (isNewline) {
+        line++;
+        column = 0;
+        if (ch === '\r') skipLineFeed = true;
+      }
+    }
+  };
+
+  const end = () => {
+    if (state === 'quoted') {
+      handlers.onError({ line: quoteLine, column: quoteColumn, message: 'Unterminated quoted field' });
+    }
+    if (fields.length > 0 || field !== '' || state !== 'fieldStart') {
+      endRecord();
+    }
+  };
+
+  return { write, end };
+}
+
+/**
+ * Pick the delimiter that occurs most often (outside quotes) in the first
+ * record of the sample. Falls back to comma.
+ */
+export function detectDelimiter(sample: string): string {
+  const counts = new Map<string, number>(CSV_DELIMITERS.map((d) => [d, 0]));
+  let inQuotes = false;
+
+  for (const ch of sample.replace(/^\uFEFF/, '')) {
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (ch === '\n' || ch === '\r')) {
+      break;
+    } else if (!inQuotes && counts.has(ch)) {
+      counts.set(ch, counts.get(ch)! + 1);
+    }
+  }
+
+  let delimiter = ',';
+  let maxCount = 0;
+  for (const [d, count] of counts) {
+    if (count > maxCount) {
+      maxCount = count;
+      delimiter = d;
+    }
+  }
+  return delimiter;
+}
+
+export function parseCSV(text: string, delimiter = detectDelimiter(text)): CSVParseResult {
+  const records: CSVRecord[] = [];
+  const errors: CSVParseError[] = [];
+  const tokenizer = createCSVTokenizer(delimiter, {
+    onRecord: (record) => records.push(record),
+    onError: (error) => errors.push(error),
+  });
+  tokenizer.write(text);
+  tokenizer.end();
+  return { records, errors, delimiter };
+}
+
+/**
+ * Stream a file through the tokenizer without loading it into one string.
+ * The delimiter is detected from the first decoded chunk unless given.
+ */
+export async function parseCSVFile(file: Blob, delimiter?: string): Promise<CSVParseResult> {
+  const records: CSVRecord[] = [];
+  const errors: CSVParseError[] = [];
+  const reader = file.stream().getReader();
+  const decoder = new TextDecoder('utf-8');
+  let tokenizer: ReturnType<typeof createCSVTokenizer> | null = null;
+  let usedDelimiter = delimiter;
+
+  const feed = (text: string) => {
+    if (!text) return;
+    if (!tokenizer) {
+      usedDelimiter = usedDelimiter ?? detectDelimiter(text);
+      tokenizer = createCSVTokenizer(usedDelimiter, {
+        onRecord: (record) => records.push(record),
+        onError: (error) => errors.push(error),
+      });
+    }
+    tokenizer.write(text);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    feed(decoder.decode(value, { stream: true }));
+  }
+  feed(decoder.decode());
+  tokenizer?.end();
+
+  return { records, errors, delimiter: usedDelimiter ?? ',' };
+}
+
+/** Quote a field only when it contains a delimiter, quote or line break */
+const escapeCSVField = (value: string, delimiter: string): string =>
+  value.includes(delimiter) || /["\r\n]/.test(value) || /^\s|\s$/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+export function serializeCSV(rows: string[][], delimiter = ','): string {
+  return rows.map((row) => row.map((field) => escapeCSVField(field, delimiter)).join(delimiter)).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,326 @@
+// Minimal EXIF (TIFF IFD) reader. Only what the renamer needs: tags of IFD0
+// and the Exif sub-IFD, read from the APP1 segment of a JPEG or the Exif
+// item of a HEIC.
+
+export type ExifValue = number | string | number[] | Uint8Array;
+
+export interface ExifTags {
+  /** IFD0 tags (image description, orientation, copyright...) */
+  image: Map<number, ExifValue>;
+  /** Exif sub-IFD tags (capture date, exposure...) */
+  exif: Map<number, ExifValue>;
+}
+
+export const EXIF_TAGS = {
+  ImageDescription: 0x010e,
+  Orientation: 0x0112,
+  Artist: 0x013b,
+  Copyright: 0x8298,
+  ExifIFDPointer: 0x8769,
+  GPSInfoIFDPointer: 0x8825,
+  DateTimeOriginal: 0x9003,
+  PixelXDimension: 0xa002,
+  PixelYDimension: 0xa003,
+  InteropIFDPointer: 0xa005,
+} as const;
+
+// EXIF lives in the first 64 KB APP1 segment; a little extra covers
+// preceding APP0/JFIF segments
+const HEADER_BYTES = 128 * 1024;
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+/** Locate the TIFF header of the EXIF block inside a JPEG */
+export function findJpegExif(bytes: Uint8Array): DataView | null {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) return null;
+    const marker = bytes[offset + 1];
+    // Start of scan / end of image: no metadata after this point
+    if (marker === 0xda || marker === 0xd9) return null;
+    const length = view.getUint16(offset + 2);
+    if (
+      marker === 0xe1 &&
+      String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0'
+    ) {
+      const start = offset + 10;
+      const end = Math.min(offset + 2 + length, bytes.length);
+      return new DataView(bytes.buffer, bytes.byteOffset + start, end - start);
+    }
+    offset += 2 + length;
+  }
+  return null;
+}
+
+// --- HEIC (ISO-BMFF) -------------------------------------------------------
+
+interface Box {
+  type: string;
+  /** Offset of the payload, after the size and type */
+  body: number;
+  end: number;
+}
+
+const fourCC = (view: DataView, offset: number) =>
+  String.fromCharCode(...new Uint8Array(view.buffer, view.byteOffset + offset, 4));
+
+const readBoxes = (view: DataView, start: number, end: number): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    let body = offset + 8;
+    if (size === 1) {
+      // 64-bit size; the high word is zero for anything a browser can hold
+      if (offset + 16 > end) break;
+      size = view.getUint32(offset + 12);
+      body += 8;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < body - offset) break;
+    boxes.push({ type: fourCC(view, offset + 4), body, end: Math.min(offset + size, end) });
+    offset += size;
+  }
+  return boxes;
+};
+
+const childBox = (view: DataView, parent: Box, type: string, headerBytes = 0) =>
+  readBoxes(view, parent.body + headerBytes, parent.end).find((box) => box.type === type);
+
+const readSized = (view: DataView, offset: number, size: number): number =>
+  size === 4 ? view.getUint32(offset) : size === 2 ? view.getUint16(offset) : size === 8 ? view.getUint32(offset + 4) : 0;
+
+// The `meta` box of an ISO-BMFF file; it is a full box, so children follow
+// a 4-byte version/flags header
+const findMeta = (view: DataView): Box | undefined => {
+  if (view.byteLength < 12 || fourCC(view, 4) !== 'ftyp') return undefined;
+  return readBoxes(view, 0, view.byteLength).find((box) => box.type === 'meta');
+};
+
+const exifItemId = (view: DataView, iinf: Box): number | null => {
+  const version = view.getUint8(iinf.body);
+  const first = iinf.body + (version === 0 ? 6 : 8);
+  for (const infe of readBoxes(view, first, iinf.end)) {
+    const infeVersion = view.getUint8(infe.body);
+    if (infe.type !== 'infe' || infeVersion < 2) continue;
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const typeOffset = infe.body + 4 + idSize + 2;
+    if (typeOffset + 4 <= infe.end && fourCC(view, typeOffset) === 'Exif') {
+      return readSized(view, infe.body + 4, idSize);
+    }
+  }
+  return null;
+};
+
+const itemLocation = (view: DataView, iloc: Box, itemId: number): { offset: number; length: number } | null => {
+  const version = view.getUint8(iloc.body);
+  const sizes = view.getUint16(iloc.body + 4);
+  const offsetSize = sizes >> 12;
+  const lengthSize = (sizes >> 8) & 0xf;
+  const baseOffsetSize = (sizes >> 4) & 0xf;
+  const indexSize = version === 1 || version === 2 ? sizes & 0xf : 0;
+  const idSize = version < 2 ? 2 : 4;
+  const count = readSized(view, iloc.body + 6, idSize);
+  let offset = iloc.body + 6 + idSize;
+
+  for (let i = 0; i < count && offset < iloc.end; i++) {
+    const id = readSized(view, offset, idSize);
+    offset += idSize;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(offset) & 0xf;
+      offset += 2;
+    }
+    offset += 2; // data reference index
+    const baseOffset = readSized(view, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+    const extents = view.getUint16(offset);
+    offset += 2;
+    const extentSize = indexSize + offsetSize + lengthSize;
+    if (id === itemId) {
+      // Only items stored in the file body as one extent; Exif always is in practice
+      if (constructionMethod !== 0 || extents < 1) return null;
+      return {
+        offset: baseOffset + readSized(view, offset + indexSize, offsetSize),
+        length: readSized(view, offset + indexSize + offsetSize, lengthSize),
+      };
+    }
+    offset += extents * extentSize;
+  }
+  return null;
+};
+
+/** File offset and length of the Exif item of a HEIC, found from its header */
+export function findHeicExif(bytes: Uint8Array): { offset: number; length: number } | null {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    const meta = findMeta(view);
+    if (!meta) return null;
+    const iinf = childBox(view, meta, 'iinf', 4);
+    const iloc = childBox(view, meta, 'iloc', 4);
+    const itemId = iinf ? exifItemId(view, iinf) : null;
+    return iloc && itemId !== null ? itemLocation(view, iloc, itemId) : null;
+  } catch {
+    // Truncated header
+    return null;
+  }
+}
+
+/**
+ * Whether a HEIC carries rotation or mirroring properties (`irot`/`imir`).
+ * Decoders must apply those, and the Exif orientation then only repeats them.
+ */
+export function hasHeicTransform(bytes: Uint8Array): boolean {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  try {
+    const meta = findMeta(view);
+    const iprp = meta && childBox(view, meta, 'iprp', 4);
+    const ipco = iprp && childBox(view, iprp, 'ipco');
+    return !!ipco && readBoxes(view, ipco.body, ipco.end).some((box) => box.type === 'irot' || box.type === 'imir');
+  } catch {
+    return false;
+  }
+}
+
+/** The TIFF block inside an Exif item, which starts with the offset of the TIFF header */
+export function exifItemTiff(item: Uint8Array): DataView | null {
+  if (item.length < 4) return null;
+  const view = new DataView(item.buffer, item.byteOffset, item.byteLength);
+  const start = 4 + view.getUint32(0);
+  return start < item.length ? new DataView(item.buffer, item.byteOffset + start, item.length - start) : null;
+}
+
+// --- TIFF ------------------------------------------------------------------
+
+/** Offset of a tag's IFD0 entry inside a TIFF block, with the block's byte order */
+export function findImageTag(tiff: DataView, tag: number): { entry: number; little: boolean } | null {
+  if (tiff.byteLength < 8) return null;
+  const order = tiff.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+  const entry = findIfdEntry(tiff, tiff.getUint32(4, little), tag, little);
+  return entry === null ? null : { entry, little };
+}
+
+/** Offset of a tag's entry in the IFD at `ifd`, or null */
+export function findIfdEntry(tiff: DataView, ifd: number, tag: number, little: boolean): number | null {
+  if (ifd <= 0 || ifd + 2 > tiff.byteLength) return null;
+  const count = tiff.getUint16(ifd, little);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.byteLength) break;
+    if (tiff.getUint16(entry, little) === tag) return entry;
+  }
+  return null;
+}
+
+/** Where an IFD entry's value is stored: inline in the entry or at an offset */
+export function entryValueRange(tiff: DataView, entry: number, little: boolean): { offset: number; size: number } | null {
+  const type = tiff.getUint16(entry + 2, little);
+  const size = (TYPE_SIZES[type] ?? 0) * tiff.getUint32(entry + 4, little);
+  if (size === 0) return null;
+  const offset = size <= 4 ? entry + 8 : tiff.getUint32(entry + 8, little);
+  return offset + size <= tiff.byteLength ? { offset, size } : null;
+}
+
+/** Parse a TIFF structure (as found in EXIF blocks) into IFD0 and Exif tags */
+export function parseTiff(tiff: DataView): ExifTags | null {
+  if (tiff.byteLength < 8) return null;
+  const order = tiff.getUint16(0);
+  if (order !== 0x4949 && order !== 0x4d4d) return null;
+  const little = order === 0x4949;
+
+  const readIFD = (offset: number): Map<number, ExifValue> => {
+    const tags = new Map<number, ExifValue>();
+    if (offset <= 0 || offset + 2 > tiff.byteLength) return tags;
+    const count = tiff.getUint16(offset, little);
+
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      if (entry + 12 > tiff.byteLength) break;
+      const tag = tiff.getUint16(entry, little);
+      const type = tiff.getUint16(entry + 2, little);
+      const n = tiff.getUint32(entry + 4, little);
+      const size = (TYPE_SIZES[type] ?? 0) * n;
+      if (size === 0) continue;
+      const valueOffset = size <= 4 ? entry + 8 : tiff.getUint32(entry + 8, little);
+      if (valueOffset + size > tiff.byteLength) continue;
+      tags.set(tag, readValue(tiff, type, n, valueOffset, little));
+    }
+    return tags;
+  };
+
+  const image = readIFD(tiff.getUint32(4, little));
+  const exifPointer = image.get(EXIF_TAGS.ExifIFDPointer);
+  const exif = typeof exifPointer === 'number' ? readIFD(exifPointer) : new Map<number, ExifValue>();
+  return { image, exif };
+}
+
+function readValue(view: DataView, type: number, count: number, offset: number, little: boolean): ExifValue {
+  switch (type) {
+    case 2: {
+      let text = '';
+      for (let i = 0; i < count; i++) {
+        const code = view.getUint8(offset + i);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      return text.trim();
+    }
+    case 7:
+      return new Uint8Array(view.buffer, view.byteOffset + offset, count).slice();
+    default: {
+      const values: number[] = [];
+      for (let i = 0; i < count; i++) {
+        switch (type) {
+          case 1:
+            values.push(view.getUint8(offset + i));
+            break;
+          case 3:
+            values.push(view.getUint16(offset + i * 2, little));
+            break;
+          case 4:
+            values.push(view.getUint32(offset + i * 4, little));
+            break;
+          case 9:
+            values.push(view.getInt32(offset + i * 4, little));
+            break;
+          case 5:
+          case 10: {
+            const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view);
+            const denominator = read(offset + i * 8 + 4, little);
+            values.push(denominator ? read(offset + i * 8, little) / denominator : 0);
+            break;
+          }
+        }
+      }
+      return values.length === 1 ? values[0] : values;
+    }
+  }
+}
+
+export async function readExif(file: Blob): Promise<ExifTags | null> {
+  const bytes = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const jpeg = findJpegExif(bytes);
+  if (jpeg) return parseTiff(jpeg);
+
+  // HEIC keeps EXIF in an item of the media data, located from the header
+  const location = findHeicExif(bytes);
+  if (!location) return null;
+  const item = new Uint8Array(await file.slice(location.offset, location.offset + location.length).arrayBuffer());
+  const tiff = exifItemTiff(item);
+  return tiff ? parseTiff(tiff) : null;
+}
+
+/** EXIF "YYYY:MM:DD HH:MM:SS" as a local Date */
+export function parseExifDate(value: ExifValue | undefined): Date | null {
+  if (typeof value !== 'string') return null;
+  const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match.map(Number);
+  return new Date(year, month - 1, day, hour, minute, second);
+}
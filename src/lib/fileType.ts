@@ -0,0 +1,70 @@
+// Image type detection from magic bytes, independent of the file name
+
+export interface DetectedType {
+  mimeType: string;
+  /** Canonical extension for the type, lowercase without a dot */
+  extension: string;
+}
+
+const HEADER_BYTES = 32;
+
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+export function detectTypeFromBytes(bytes: Uint8Array): DetectedType | null {
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) {
+    return { mimeType: 'image/jpeg', extension: 'jpg' };
+  }
+  if (ascii(bytes, 0, 8) === '\x89PNG\r\n\x1a\n') {
+    return { mimeType: 'image/png', extension: 'png' };
+  }
+  if (ascii(bytes, 0, 6) === 'GIF87a' || ascii(bytes, 0, 6) === 'GIF89a') {
+    return { mimeType: 'image/gif', extension: 'gif' };
+  }
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+    return { mimeType: 'image/webp', extension: 'webp' };
+  }
+  if (ascii(bytes, 0, 2) === 'BM') {
+    return { mimeType: 'image/bmp', extension: 'bmp' };
+  }
+  if (ascii(bytes, 0, 4) === 'II*\0' || ascii(bytes, 0, 4) === 'MM\0*') {
+    return { mimeType: 'image/tiff', extension: 'tif' };
+  }
+  if (bytes[0] === 0 && bytes[1] === 0 && bytes[2] === 1 && bytes[3] === 0) {
+    return { mimeType: 'image/x-icon', extension: 'ico' };
+  }
+  // ISO-BMFF: the major brand of the `ftyp` box tells AVIF from HEIC
+  if (ascii(bytes, 4, 4) === 'ftyp') {
+    const brand = ascii(bytes, 8, 4);
+    if (brand === 'avif' || brand === 'avis') {
+      return { mimeType: 'image/avif', extension: 'avif' };
+    }
+    if (['heic', 'heix', 'heim', 'heis', 'hevc', 'hevx', 'mif1', 'msf1'].includes(brand)) {
+      return { mimeType: 'image/heic', extension: 'heic' };
+    }
+  }
+  return null;
+}
+
+export async function detectImageType(file: Blob): Promise<DetectedType | null> {
+  const buffer = await file.slice(0, HEADER_BYTES).arrayBuffer();
+  return detectTypeFromBytes(new Uint8Array(buffer));
+}
+
+// Extensions that name the same format
+const EXTENSION_ALIASES: Record<string, string> = {
+  jpeg: 'jpg',
+  jpe: 'jpg',
+  jfif: 'jpg',
+  tiff: 'tif',
+  heif: 'heic',
+};
+
+export const canonicalExtension = (ext: string): string => {
+  const lower = ext.toLowerCase();
+  return EXTENSION_ALIASES[lower] ?? lower;
+};
+
+/** Whether a file extension is a correct name for the detected type */
+export const extensionMatchesType = (ext: string, type: DetectedType): boolean =>
+  canonicalExtension(ext) === type.extension;
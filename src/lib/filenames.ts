@@ -0,0 +1,281 @@
+// Helpers for working with file names independently of the file itself
+
+/**
+ * Split "photo.final.JPG" into ["photo.final", "JPG"]. Only a trailing run of
+ * 1-5 letters/digits counts as an extension, so "v1.2_front" has none.
+ */
+export function splitExtension(name: string): [base: string, extension: string] {
+  const match = name.match(/^(.+)\.([A-Za-z0-9]{1,5})$/);
+  return match ? [match[1], match[2]] : [name, ''];
+}
+
+// --- Folder paths --------------------------------------------------------
+
+// Output names may carry folders ("brand/category/sku.jpg"). Backslashes are
+// accepted as separators for mappings written on Windows.
+
+export const pathSegments = (path: string): string[] =>
+  path.split(/[\\/]+/).filter((segment) => segment && segment !== '.');
+
+/** Join folder and name parts into a normalized "a/b/c.jpg" path */
+export const joinPath = (...parts: (string | undefined)[]): string =>
+  parts.flatMap((part) => (part ? pathSegments(part) : [])).join('/');
+
+/** Split "brand/category/sku.jpg" into ["brand/category", "sku.jpg"] */
+export function splitPath(path: string): [folder: string, fileName: string] {
+  const segments = pathSegments(path);
+  const fileName = segments.pop() ?? '';
+  return [segments.join('/'), fileName];
+}
+
+// --- Extensions ----------------------------------------------------------
+
+export type ExtensionPolicy = 'keep-original' | 'from-mapping';
+
+export const EXTENSION_POLICIES: { policy: ExtensionPolicy; label: string; description: string }[] = [
+  {
+    policy: 'from-mapping',
+    label: 'From mapping',
+    description: 'Use the extension in the new name; add the original one when it has none',
+  },
+  {
+    policy: 'keep-original',
+    label: 'Keep original',
+    description: "Always use the source file's extension, replacing any in the new name",
+  },
+];
+
+// Only these count as an extension in a mapping value, so "v1.2_front" or
+// "sku.v2" keep their dots and get the original extension appended
+const IMAGE_EXTENSIONS = new Set([
+  'jpg', 'jpeg', 'jpe', 'jfif', 'png', 'gif', 'bmp', 'webp', 'avif',
+  'tif', 'tiff', 'heic', 'heif', 'ico', 'svg',
+]);
+
+export function splitImageExtension(name: string): [base: string, extension: string] {
+  const [base, ext] = splitExtension(name);
+  return ext && IMAGE_EXTENSIONS.has(ext.toLowerCase()) ? [base, ext] : [name, ''];
+}
+
+/** The name without an image extension; "sku.v2" keeps its full stem */
+export const stripImageExtension = (name: string): string => splitImageExtension(name)[0];
+
+/**
+ * Output name for a mapping target under the extension options. The
+ * original extension falls back to the sniffed type, then to jpg.
+ */
+export function outputFileName(
+  newName: string,
+  originalName: string,
+  options: Pick<NameOptions, 'extensionPolicy' | 'lowercaseExtension' | 'jpegAsJpg'> = DEFAULT_NAME_OPTIONS,
+  detectedExtension?: string
+): string {
+  const [base, mappedExt] = splitImageExtension(newName);
+  const originalExt = splitImageExtension(originalName)[1] || detectedExtension || 'jpg';
+
+  let ext = options.extensionPolicy === 'from-mapping' && mappedExt ? mappedExt : originalExt;
+  if (options.jpegAsJpg && /^jpeg$/i.test(ext)) {
+    ext = ext === 'JPEG' ? 'JPG' : 'jpg';
+  }
+  if (options.lowercaseExtension) {
+    ext = ext.toLowerCase();
+  }
+  return `${base}.${ext}`;
+}
+
+/** Swap the image extension of a name, or add one when it has none */
+export const replaceExtension = (name: string, extension: string): string =>
+  `${splitImageExtension(name)[0]}.${extension}`;
+
+// --- Cross-platform validation -------------------------------------------
+
+export type OSProfile = 'portable' | 'windows' | 'macos' | 'linux';
+
+export const OS_PROFILES: { profile: OSProfile; label: string }[] = [
+  { profile: 'portable', label: 'All platforms' },
+  { profile: 'windows', label: 'Windows' },
+  { profile: 'macos', label: 'macOS' },
+  { profile: 'linux', label: 'Linux' },
+];
+
+export interface NameOptions {
+  profile: OSProfile;
+  /** Rewrite invalid names instead of only flagging them */
+  autoFix: boolean;
+  /** Replace non-ASCII characters (é -> e, ß -> ss) in every output name */
+  transliterate: boolean;
+  extensionPolicy: ExtensionPolicy;
+  /** Write ".JPG" as ".jpg" */
+  lowercaseExtension: boolean;
+  /** Write ".jpeg" as ".jpg" */
+  jpegAsJpg: boolean;
+}
+
+export const DEFAULT_NAME_OPTIONS: NameOptions = {
+  profile: 'portable',
+  autoFix: false,
+  transliterate: false,
+  extensionPolicy: 'from-mapping',
+  lowercaseExtension: false,
+  jpegAsJpg: false,
+};
+
+const MAX_NAME_BYTES = 255;
+// Keep room for the extraction folder within Windows' 260 character MAX_PATH
+const MAX_WINDOWS_PATH = 200;
+
+const WINDOWS_RESERVED = /^(con|prn|aux|nul|com[1-9]|lpt[1-9])(\..*)?$/i;
+/* eslint-disable no-control-regex */
+const WINDOWS_FORBIDDEN = /[<>:"/\\|?*\u0000-\u001f]/g;
+const MACOS_FORBIDDEN = /[/:\u0000]/g;
+const LINUX_FORBIDDEN = /[/\u0000]/g;
+/* eslint-enable no-control-regex */
+
+const forbiddenPattern = (profile: OSProfile): RegExp =>
+  profile === 'linux' ? LINUX_FORBIDDEN : profile === 'macos' ? MACOS_FORBIDDEN : WINDOWS_FORBIDDEN;
+
+const checksWindowsRules = (profile: OSProfile) => profile === 'windows' || profile === 'portable';
+
+const utf8Length = (text: string) => new TextEncoder().encode(text).length;
+
+/** Problems that make `name` unusable as a file name on the given platform */
+export function validateFileName(name: string, profile: OSProfile): string[] {
+  const issues: string[] = [];
+
+  if (!name.trim()) {
+    return ['Name is empty'];
+  }
+  if (name === '.' || name === '..') {
+    issues.push(`"${name}" is not a valid file name`);
+  }
+
+  const forbidden = [...new Set(name.match(forbiddenPattern(profile)) ?? [])];
+  if (forbidden.length > 0) {
+    const shown = forbidden.map((ch) => (ch < ' ' ? `\\x${ch.charCodeAt(0).toString(16).padStart(2, '0')}` : ch));
+    issues.push(`Contains forbidden characters: ${shown.join(' ')}`);
+  }
+
+  if (checksWindowsRules(profile)) {
+    if (WINDOWS_RESERVED.test(name)) {
+      issues.push(`"${name.split('.')[0]}" is a reserved name on Windows`);
+    }
+    if (/[. ]$/.test(name)) {
+      issues.push('Ends with a dot or space, which Windows strips');
+    }
+    if (name.length > MAX_WINDOWS_PATH) {
+      issues.push(`Longer than ${MAX_WINDOWS_PATH} characters; extracted paths may exceed Windows' limit`);
+    }
+  }
+
+  if (name !== name.trim()) {
+    issues.push('Starts or ends with whitespace');
+  }
+
+  if (utf8Length(name) > MAX_NAME_BYTES) {
+    issues.push(`Longer than ${MAX_NAME_BYTES} bytes`);
+  }
+
+  return issues;
+}
+
+const TRANSLITERATIONS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', Æ: 'AE', œ: 'oe', Œ: 'OE', ø: 'o', Ø: 'O', ł: 'l', Ł: 'L',
+  đ: 'd', Đ: 'D', ð: 'd', Ð: 'D', þ: 'th', Þ: 'Th', ı: 'i',
+};
+
+/** Reduce a name to ASCII: strip accents, spell out ligatures, drop the rest */
+export function transliterate(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, (ch) => TRANSLITERATIONS[ch] ?? '_');
+}
+
+/**
+ * Problems with an output path: every folder and the file name must be valid
+ * on their own, and the whole path must fit Windows' length limit.
+ */
+export function validateOutputPath(path: string, profile: OSProfile): string[] {
+  const [folder, fileName] = splitPath(path);
+  if (!folder) return validateFileName(fileName || path, profile);
+
+  const issues = folder
+    .split('/')
+    .flatMap((segment) => validateFileName(segment, profile).map((issue) => `Folder "${segment}": ${issue}`));
+  issues.push(...validateFileName(fileName, profile));
+
+  const joined = `${folder}/${fileName}`;
+  if (checksWindowsRules(profile) && joined.length > MAX_WINDOWS_PATH && fileName.length <= MAX_WINDOWS_PATH) {
+    issues.push(`Path is longer than ${MAX_WINDOWS_PATH} characters; extracted paths may exceed Windows' limit`);
+  }
+  return issues;
+}
+
+/**
+ * Apply the name options to an output path: transliterate when asked to, and
+ * with `autoFix` rewrite each folder and the file name so that
+ * `validateOutputPath` accepts them.
+ */
+export function normalizeOutputName(path: string, options: NameOptions): string {
+  const segments = pathSegments(path);
+  if (segments.length === 0) return options.autoFix ? sanitizeFileName(path, options) : path;
+  const normalized = segments.map((segment) => {
+    if (options.autoFix) return sanitizeFileName(segment, options);
+    return options.transliterate ? transliterate(segment) : segment;
+  });
+  return options.autoFix && checksWindowsRules(options.profile)
+    ? fitPathLength(normalized, MAX_WINDOWS_PATH)
+    : normalized.join('/');
+}
+
+// Shorten the file name's stem until the whole path fits `limit`, keeping
+// the extension and a trailing "_2"-style counter. Folders are left alone,
+// so a path whose folders alone are too long stays flagged.
+const fitPathLength = (segments: string[], limit: number): string => {
+  const path = segments.join('/');
+  if (path.length <= limit) return path;
+
+  const folders = segments.slice(0, -1);
+  const [base, ext] = splitExtension(segments[segments.length - 1]);
+  const [, stem, counter = ''] = base.match(/^(.*?)(_\d+)?$/)!;
+  const prefix = folders.length ? `${folders.join('/')}/` : '';
+  const suffix = `${counter}${ext ? `.${ext}` : ''}`;
+
+  let shortened = Array.from(stem);
+  while (shortened.length > 1 && (prefix + shortened.join('') + suffix).length > limit) {
+    shortened = shortened.slice(0, -1);
+  }
+  // Windows strips a trailing dot or space, which would change the name
+  const trimmed = shortened.join('').replace(/[. ]+$/, '') || shortened.join('');
+  return prefix + trimmed + suffix;
+};
+
+/** Rewrite a name so that `validateFileName` accepts it on the given platform */
+export function sanitizeFileName(name: string, options: NameOptions): string {
+  let result = options.transliterate ? transliterate(name) : name.normalize('NFC');
+
+  result = result.replace(forbiddenPattern(options.profile), '_').trim();
+
+  if (checksWindowsRules(options.profile)) {
+    result = result.replace(/[. ]+$/, '');
+    if (WINDOWS_RESERVED.test(result)) {
+      const [base, ext] = splitExtension(result);
+      result = `${base}_${ext ? `.${ext}` : ''}`;
+    }
+  }
+
+  if (!result || result === '.' || result === '..') {
+    result = 'unnamed';
+  }
+
+  // Shorten the base name, never the extension
+  const limit = checksWindowsRules(options.profile) ? MAX_WINDOWS_PATH : MAX_NAME_BYTES;
+  const [base, ext] = splitExtension(result);
+  const suffix = ext ? `.${ext}` : '';
+  let shortened = base;
+  while (shortened.length > 1 && (utf8Length(shortened + suffix) > MAX_NAME_BYTES || (shortened + suffix).length > limit)) {
+    shortened = Array.from(shortened).slice(0, -1).join('');
+  }
+
+  return shortened + suffix;
+}
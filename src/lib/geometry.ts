@@ -0,0 +1,70 @@
+// Rectangles and anchors shared by the crop, resize and watermark stages
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type Anchor =
+  | 'top-left'
+  | 'top'
+  | 'top-right'
+  | 'left'
+  | 'center'
+  | 'right'
+  | 'bottom-left'
+  | 'bottom'
+  | 'bottom-right';
+
+/** In grid order, for a 3x3 anchor picker */
+export const ANCHORS: Anchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+const anchorSides = (anchor: Anchor): [vertical: string, horizontal: string] => {
+  switch (anchor) {
+    case 'top':
+    case 'bottom':
+      return [anchor, 'center'];
+    case 'left':
+    case 'right':
+      return ['center', anchor];
+    case 'center':
+      return ['center', 'center'];
+    default:
+      return anchor.split('-') as [string, string];
+  }
+};
+
+/**
+ * Top-left corner of a `width` x `height` box placed inside an outer box at
+ * `anchor`. Offsets push away from the anchored edges; centred axes ignore them.
+ */
+export function anchorBox(
+  anchor: Anchor,
+  outerWidth: number,
+  outerHeight: number,
+  width: number,
+  height: number,
+  offsetX = 0,
+  offsetY = 0
+): { x: number; y: number } {
+  const [vertical, horizontal] = anchorSides(anchor);
+  const x =
+    horizontal === 'left'
+      ? offsetX
+      : horizontal === 'right'
+        ? outerWidth - width - offsetX
+        : (outerWidth - width) / 2;
+  const y =
+    vertical === 'top'
+      ? offsetY
+      : vertical === 'bottom'
+        ? outerHeight - height - offsetY
+        : (outerHeight - height) / 2;
+  return { x, y };
+}
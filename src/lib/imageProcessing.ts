@@ -0,0 +1,441 @@
+import { cropActive, DEFAULT_CROP_OPTIONS, planCrop, type CropOptions } from '@/lib/crop';
+import type { Rect } from '@/lib/geometry';
+import { neutralizeOrientation, orientImage } from '@/lib/orientation';
+import { DEFAULT_WATERMARK_OPTIONS, drawWatermark, type WatermarkOptions } from '@/lib/watermark';
+
+// Canvas helpers for the re-encoding path of the processor. Renaming alone
+// never goes through here: the original file bytes are copied as-is.
+
+/**
+ * - none: keep the original size
+ * - max: shrink to fit within width x height (0 = unbounded), never enlarge
+ * - cover: exact size, scaled to fill and centre-cropped
+ * - contain: exact size, scaled to fit and padded with the background colour
+ * - fill: exact size, stretched
+ */
+export type FitMode = 'none' | 'max' | 'cover' | 'contain' | 'fill';
+
+export const FIT_MODES: { mode: FitMode; label: string; description: string }[] = [
+  { mode: 'none', label: 'Original size', description: 'Keep the original dimensions' },
+  { mode: 'max', label: 'Fit within', description: 'Shrink to fit the maximum width and height, keeping proportions' },
+  { mode: 'cover', label: 'Cover', description: 'Exact size; fill it and crop the overflow' },
+  { mode: 'contain', label: 'Contain', description: 'Exact size; fit inside and pad with the background colour' },
+  { mode: 'fill', label: 'Stretch', description: 'Exact size; ignore proportions' },
+];
+
+export interface ResizeOptions {
+  mode: FitMode;
+  width: number;
+  height: number;
+  /** Padding for `contain`, and the backdrop for transparency in JPEG output */
+  background: string;
+  /** Downscale in halving steps, which avoids the aliasing of a single large step */
+  highQuality: boolean;
+}
+
+export type OutputFormat = 'original' | 'jpeg' | 'png' | 'webp' | 'avif';
+
+/** Formats with an encoder quality setting */
+export type LossyFormat = 'jpeg' | 'webp' | 'avif';
+
+export const OUTPUT_FORMATS: { format: OutputFormat; label: string; mimeType?: string; extension?: string }[] = [
+  { format: 'original', label: 'Keep format' },
+  { format: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg' },
+  { format: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png' },
+  { format: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp' },
+  { format: 'avif', label: 'AVIF', mimeType: 'image/avif', extension: 'avif' },
+];
+
+export interface FormatSettings {
+  /** Encoder quality between 0 and 1 */
+  quality: number;
+  /** Ask for lossless output; browsers encode WebP losslessly at quality 1 */
+  lossless: boolean;
+}
+
+export interface OutputOptions {
+  format: OutputFormat;
+  /** Used for the format being written, including when keeping the original one */
+  settings: Record<LossyFormat, FormatSettings>;
+}
+
+export interface SizeLimitOptions {
+  enabled: boolean;
+  /** Largest acceptable output file, in bytes */
+  maxBytes: number;
+  /** Shrink the image when even the lowest quality is too large */
+  allowDownscale: boolean;
+}
+
+export interface ProcessingOptions {
+  /** Decode and re-encode every image even when no transform needs it */
+  reencode: boolean;
+  crop: CropOptions;
+  resize: ResizeOptions;
+  output: OutputOptions;
+  sizeLimit: SizeLimitOptions;
+  watermark: WatermarkOptions;
+}
+
+export const DEFAULT_PROCESSING_OPTIONS: ProcessingOptions = {
+  reencode: false,
+  crop: DEFAULT_CROP_OPTIONS,
+  resize: { mode: 'none', width: 2000, height: 2000, background: '#ffffff', highQuality: true },
+  output: {
+    format: 'original',
+    settings: {
+      jpeg: { quality: 0.9, lossless: false },
+      webp: { quality: 0.85, lossless: false },
+      avif: { quality: 0.6, lossless: false },
+    },
+  },
+  sizeLimit: { enabled: false, maxBytes: 500 * 1024, allowDownscale: true },
+  watermark: DEFAULT_WATERMARK_OPTIONS,
+};
+
+/** True when the options require decoding pixels; otherwise bytes are copied */
+export function requiresCanvas(options: ProcessingOptions): boolean {
+  return (
+    options.reencode ||
+    cropActive(options.crop) ||
+    options.resize.mode !== 'none' ||
+    options.output.format !== 'original' ||
+    options.sizeLimit.enabled ||
+    options.watermark.enabled
+  );
+}
+
+/** Extension forced by the output format, or null to keep the name's own */
+export const outputExtension = (output: OutputOptions): string | null =>
+  OUTPUT_FORMATS.find((f) => f.format === output.format)?.extension ?? null;
+
+/** Encoder quality for a MIME type under the output settings */
+export function encoderQuality(mimeType: string, output: OutputOptions): number | undefined {
+  const format = mimeType.replace('image/', '') as LossyFormat;
+  const settings = output.settings[format];
+  if (!settings) return undefined;
+  return settings.lossless ? 1 : settings.quality;
+}
+
+let supportedFormats: Set<OutputFormat> | null = null;
+
+/**
+ * Formats this browser's canvas can encode. Unsupported types silently fall
+ * back to PNG, which is how they are detected.
+ */
+export function supportedOutputFormats(): Set<OutputFormat> {
+  if (!supportedFormats) {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = 1;
+    supportedFormats = new Set(
+      OUTPUT_FORMATS.filter(({ mimeType }) => !mimeType || canvas.toDataURL(mimeType).startsWith(`data:${mimeType}`)).map(
+        ({ format }) => format
+      )
+    );
+  }
+  return supportedFormats;
+}
+
+export const mimeTypeForExtension = (ext: string): string => {
+  const lower = ext.toLowerCase();
+  return `image/${lower === 'jpg' ? 'jpeg' : lower}`;
+};
+
+/**
+ * Extension a canvas output named with `ext` really gets: its own when this
+ * browser can encode that type, otherwise "png", which browsers fall back to
+ */
+export function encodableExtension(ext: string): string {
+  const mimeType = mimeTypeForExtension(ext);
+  const format = OUTPUT_FORMATS.find((f) => f.mimeType === mimeType);
+  return format && supportedOutputFormats().has(format.format) ? ext : 'png';
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Failed to decode image'));
+    img.src = src;
+  });
+}
+
+/** A decoded image, turned upright into a canvas when its EXIF orientation asked for it */
+export type DecodedImage = HTMLImageElement | HTMLCanvasElement;
+
+export const imageSize = (image: DecodedImage) =>
+  image instanceof HTMLImageElement
+    ? { width: image.naturalWidth, height: image.naturalHeight }
+    : { width: image.width, height: image.height };
+
+/**
+ * Decode an image file the right way up. The EXIF orientation is applied
+ * here rather than left to the browser, so every browser gives the same result.
+ */
+export async function loadUprightImage(file: Blob): Promise<DecodedImage> {
+  const { bytes, orientation } = neutralizeOrientation(new Uint8Array(await file.arrayBuffer()));
+  const url = URL.createObjectURL(new Blob([bytes], { type: file.type }));
+  try {
+    const img = await loadImage(url);
+    return orientation === 1 ? img : orientImage(img, orientation);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      mimeType,
+      quality
+    );
+  });
+}
+
+// --- Resizing ------------------------------------------------------------
+
+export interface FitPlan {
+  width: number;
+  height: number;
+  /** Part of the source that is drawn */
+  source: Rect;
+  /** Where it lands on the output canvas */
+  target: Rect;
+}
+
+/** Output size and source/target rectangles for a resize */
+export function planFit(sourceWidth: number, sourceHeight: number, options: ResizeOptions): FitPlan {
+  const whole = { x: 0, y: 0, width: sourceWidth, height: sourceHeight };
+  const { mode } = options;
+  const width = Math.max(0, Math.round(options.width));
+  const height = Math.max(0, Math.round(options.height));
+
+  if (mode === 'none' || (mode !== 'max' && (!width || !height))) {
+    return { width: sourceWidth, height: sourceHeight, source: whole, target: whole };
+  }
+
+  if (mode === 'max') {
+    const scale = Math.min(1, width ? width / sourceWidth : 1, height ? height / sourceHeight : 1);
+    const w = Math.max(1, Math.round(sourceWidth * scale));
+    const h = Math.max(1, Math.round(sourceHeight * scale));
+    return { width: w, height: h, source: whole, target: { x: 0, y: 0, width: w, height: h } };
+  }
+
+  if (mode === 'fill') {
+    return { width, height, source: whole, target: { x: 0, y: 0, width, height } };
+  }
+
+  if (mode === 'cover') {
+    // Crop the source to the target's aspect ratio, centred
+    const scale = Math.max(width / sourceWidth, height / sourceHeight);
+    const sw = width / scale;
+    const sh = height / scale;
+    return {
+      width,
+      height,
+      source: { x: (sourceWidth - sw) / 2, y: (sourceHeight - sh) / 2, width: sw, height: sh },
+      target: { x: 0, y: 0, width, height },
+    };
+  }
+
+  // contain
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const w = Math.round(sourceWidth * scale);
+  const h = Math.round(sourceHeight * scale);
+  return {
+    width,
+    height,
+    source: whole,
+    target: { x: Math.floor((width - w) / 2), y: Math.floor((height - h) / 2), width: w, height: h },
+  };
+}
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  return canvas;
+};
+
+/**
+ * Draw `source` scaled into `target`. With `highQuality`, large reductions
+ * are done in halving steps: a single bilinear step from, say, 4000 to 500
+ * pixels skips most source pixels and aliases badly.
+ */
+export function drawScaled(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  source: Rect,
+  target: Rect,
+  highQuality: boolean
+) {
+  let current: CanvasImageSource = image;
+  let rect = source;
+
+  if (highQuality) {
+    while (rect.width / 2 >= target.width && rect.height / 2 >= target.height) {
+      const step = createCanvas(rect.width / 2, rect.height / 2);
+      const stepCtx = step.getContext('2d')!;
+      stepCtx.imageSmoothingQuality = 'high';
+      stepCtx.drawImage(current, rect.x, rect.y, rect.width, rect.height, 0, 0, step.width, step.height);
+      current = step;
+      rect = { x: 0, y: 0, width: step.width, height: step.height };
+    }
+  }
+
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = highQuality ? 'high' : 'low';
+  ctx.drawImage(current, rect.x, rect.y, rect.width, rect.height, target.x, target.y, target.width, target.height);
+}
+
+/** Pixels of a decoded image at its natural size, for trimming */
+export function readPixels(img: DecodedImage): ImageData {
+  const { width, height } = imageSize(img);
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true })!;
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+// Types without an alpha channel; transparent areas get the background
+const OPAQUE_TYPES = new Set(['image/jpeg', 'image/bmp']);
+
+/**
+ * Run the transform stages (crop, resize, watermark) on a decoded image.
+ * `logo` is the decoded watermark logo, when the watermark uses one.
+ */
+export function renderImage(
+  img: DecodedImage,
+  options: ProcessingOptions,
+  mimeType: string,
+  logo: HTMLImageElement | null = null
+): HTMLCanvasElement {
+  const { width, height } = imageSize(img);
+  const crop = planCrop(width, height, options.crop, () => readPixels(img));
+  const plan = planFit(crop.width, crop.height, options.resize);
+  const source = { ...plan.source, x: crop.x + plan.source.x, y: crop.y + plan.source.y };
+  const canvas = createCanvas(plan.width, plan.height);
+  const ctx = canvas.getContext('2d')!;
+
+  if (options.resize.mode === 'contain' || OPAQUE_TYPES.has(mimeType)) {
+    ctx.fillStyle = options.resize.background;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  drawScaled(ctx, img, source, plan.target, options.resize.highQuality);
+
+  if (options.watermark.enabled) {
+    drawWatermark(ctx, canvas.width, canvas.height, options.watermark, logo);
+  }
+  return canvas;
+}
+
+// The same logo is drawn on every image; decode it once
+const logoCache = new Map<string, Promise<HTMLImageElement>>();
+
+/** Decoded watermark logo for the options, or null when none is used */
+export function loadWatermarkLogo({ enabled, kind, logo }: WatermarkOptions): Promise<HTMLImageElement | null> {
+  if (!enabled || kind !== 'logo' || !logo) return Promise.resolve(null);
+  let decoded = logoCache.get(logo);
+  if (!decoded) {
+    decoded = loadImage(logo);
+    logoCache.set(logo, decoded);
+    decoded.catch(() => logoCache.delete(logo));
+  }
+  return decoded;
+}
+
+// --- Encoding ------------------------------------------------------------
+
+export interface EncodedImage {
+  blob: Blob;
+  /** Encoder quality used; undefined for formats without one */
+  quality?: number;
+  width: number;
+  height: number;
+  /** Whether the blob is within the size limit, when one is set */
+  fitsLimit?: boolean;
+}
+
+const QUALITY_TYPES = new Set(['image/jpeg', 'image/webp', 'image/avif']);
+// Below this, artefacts make the image unusable; downscaling looks better
+const MIN_QUALITY = 0.3;
+const QUALITY_STEPS = 7;
+const MAX_DOWNSCALES = 8;
+
+/**
+ * Highest quality up to `maxQuality` whose output fits `maxBytes`, found by
+ * binary search. Returns the lowest-quality attempt when nothing fits.
+ */
+async function encodeWithinBytes(
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  maxQuality: number | undefined,
+  maxBytes: number
+): Promise<{ blob: Blob; quality?: number }> {
+  const first = await canvasToBlob(canvas, mimeType, maxQuality);
+  // Lossless settings (quality 1) are kept; only downscaling may help them
+  const searchable = QUALITY_TYPES.has(mimeType) && maxQuality !== undefined && maxQuality < 1;
+  if (first.size <= maxBytes || !searchable) return { blob: first, quality: maxQuality };
+
+  // Never go above a quality already set lower than the usual floor
+  const floor = Math.min(MIN_QUALITY, maxQuality);
+  let low = floor;
+  let high = maxQuality;
+  let best: { blob: Blob; quality: number } | null = null;
+  for (let step = 0; step < QUALITY_STEPS && high - low > 0.01; step++) {
+    const quality = (low + high) / 2;
+    const blob = await canvasToBlob(canvas, mimeType, quality);
+    if (blob.size <= maxBytes) {
+      best = { blob, quality };
+      low = quality;
+    } else {
+      high = quality;
+    }
+  }
+  if (best) return best;
+
+  if (floor === maxQuality) return { blob: first, quality: maxQuality };
+  return { blob: await canvasToBlob(canvas, mimeType, floor), quality: floor };
+}
+
+const shrinkCanvas = (canvas: HTMLCanvasElement, scale: number, highQuality: boolean) => {
+  const smaller = createCanvas(canvas.width * scale, canvas.height * scale);
+  const whole = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  drawScaled(smaller.getContext('2d')!, canvas, whole, { x: 0, y: 0, width: smaller.width, height: smaller.height }, highQuality);
+  return smaller;
+};
+
+/**
+ * Decode the image upright, apply the transforms and encode it. Browsers fall
+ * back to PNG for types they cannot write (BMP, GIF), so the returned blob's
+ * type may differ from `mimeType`. With a size limit, quality is lowered and then the
+ * image shrunk until it fits.
+ */
+export async function reencodeImage(
+  file: Blob,
+  mimeType: string,
+  quality = 0.9,
+  options: ProcessingOptions = DEFAULT_PROCESSING_OPTIONS
+): Promise<EncodedImage> {
+  const [img, logo] = await Promise.all([loadUprightImage(file), loadWatermarkLogo(options.watermark)]);
+  let canvas = renderImage(img, options, mimeType, logo);
+  const startQuality = QUALITY_TYPES.has(mimeType) ? quality : undefined;
+  const { enabled, maxBytes, allowDownscale } = options.sizeLimit;
+
+  if (!enabled) {
+    const blob = await canvasToBlob(canvas, mimeType, startQuality);
+    return { blob, quality: startQuality, width: canvas.width, height: canvas.height };
+  }
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await encodeWithinBytes(canvas, mimeType, startQuality, maxBytes);
+    const fitsLimit = result.blob.size <= maxBytes;
+    if (fitsLimit || !allowDownscale || attempt === MAX_DOWNSCALES || canvas.width <= 1 || canvas.height <= 1) {
+      return { ...result, width: canvas.width, height: canvas.height, fitsLimit };
+    }
+    // File size grows roughly with pixel count
+    const scale = Math.min(0.9, Math.max(0.5, Math.sqrt(maxBytes / result.blob.size)));
+    canvas = shrinkCanvas(canvas, scale, options.resize.highQuality);
+  }
+}
@@ -0,0 +1,661 @@
+import { z } from 'zod';
+import { serializeCSV, type CSVParseError, type CSVRecord } from '@/lib/csv';
+import { formatCropRect, parseCropRect } from '@/lib/crop';
+import { joinPath } from '@/lib/filenames';
+import type { Rect } from '@/lib/geometry';
+import { OUTPUT_FORMATS, type OutputFormat } from '@/lib/imageProcessing';
+import { parseKeywords, type MetadataField, type MetadataFields } from '@/lib/metadata';
+
+export interface CSVMapping {
+  currentName: string;
+  /** May include folders, e.g. "brand/category/sku_front.jpg" */
+  newName: string;
+  /** False to leave the watermark off this image; undefined follows the batch setting */
+  watermark?: boolean;
+  /** Manual crop in pixels of the upright image, so a re-run reproduces the same output */
+  crop?: Rect;
+  /** Encoder quality between 0 and 1, overriding the batch setting for this image */
+  quality?: number;
+  /** Output format overriding the batch setting; 'original' keeps the source format */
+  format?: OutputFormat;
+  /** Title, description, copyright, keywords and alt text written into this image */
+  metadata?: Partial<MetadataFields>;
+}
+
+export type MappingFormat = 'csv' | 'json' | 'ndjson';
+
+export const JSON_MAPPING_EXTENSIONS = ['.json', '.ndjson', '.jsonl'];
+
+export interface MappingImportResult {
+  mappings: CSVMapping[];
+  problems: CSVParseError[];
+}
+
+const nameSchema = z
+  .union([z.string(), z.number()], {
+    errorMap: (_issue, ctx) => ({
+      message: ctx.data === undefined ? 'is required' : 'must be a string or number',
+    }),
+  })
+  .transform((value) => String(value).trim())
+  .pipe(z.string().min(1, 'must not be empty'));
+
+// Either {x, y, width, height} or the "x,y,width,height" form of the CSV column
+const cropSchema = z.union([
+  z.object({
+    x: z.number().nonnegative(),
+    y: z.number().nonnegative(),
+    width: z.number().positive(),
+    height: z.number().positive(),
+  }),
+  z.string().transform((value, ctx) => {
+    const rect = parseCropRect(value);
+    if (!rect) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be "x,y,width,height"' });
+      return z.NEVER;
+    }
+    return rect;
+  }),
+]);
+
+// true/false, or the same yes/no words and 1/0 the CSV column accepts; blank follows the batch
+const flagSchema = z.union([z.boolean(), z.string(), z.number()]).transform((value, ctx) => {
+  if (typeof value === 'boolean') return value;
+  if (!String(value).trim()) return undefined;
+  const flag = parseFlag(String(value));
+  if (flag === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be yes or no' });
+    return z.NEVER;
+  }
+  return flag;
+});
+
+const FORMAT_NAMES = 'original, jpg, png, webp or avif';
+
+// A number or percentage; the JSON form may also be a bare number
+const qualitySchema = z.union([z.number(), z.string()]).transform((value, ctx) => {
+  const quality = parseQuality(String(value));
+  if (quality === null) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'must be a fraction from 0 to 1 or a percentage such as 85%' });
+    return z.NEVER;
+  }
+  return quality;
+});
+
+const formatSchema = z.string().transform((value, ctx) => {
+  const format = parseOutputFormat(value);
+  if (!format) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: `must be one of ${FORMAT_NAMES}` });
+    return z.NEVER;
+  }
+  return format;
+});
+
+// The non-empty metadata fields, or undefined when there are none
+const metadataFromFields = (fields: Partial<MetadataFields>): Partial<MetadataFields> | undefined => {
+  const metadata: Partial<MetadataFields> = {};
+  if (fields.title?.trim()) metadata.title = fields.title.trim();
+  if (fields.description?.trim()) metadata.description = fields.description.trim();
+  if (fields.copyright?.trim()) metadata.copyright = fields.copyright.trim();
+  if (fields.keywords?.length) metadata.keywords = fields.keywords;
+  if (fields.altText?.trim()) metadata.altText = fields.altText.trim();
+  return Object.keys(metadata).length ? metadata : undefined;
+};
+
+// Accept the snake_case headers of our CSV template as well. An optional
+// `folder` is prepended to the new name.
+const entrySchema = z.preprocess(
+  (value) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+    const entry = value as Record<string, unknown>;
+    return {
+      currentName: entry.currentName ?? entry.current_name,
+      newName: entry.newName ?? entry.new_name,
+      folder: entry.folder ?? undefined,
+      watermark: entry.watermark ?? undefined,
+      crop: entry.crop ?? undefined,
+      quality: entry.quality ?? undefined,
+      format: entry.format ?? undefined,
+      title: entry.title ?? undefined,
+      description: entry.description ?? undefined,
+      copyright: entry.copyright ?? undefined,
+      keywords: entry.keywords ?? undefined,
+      altText: entry.altText ?? entry.alt_text ?? undefined,
+    };
+  },
+  z
+    .object({
+      currentName: nameSchema,
+      newName: nameSchema,
+      folder: z.string().optional(),
+      watermark: flagSchema.optional(),
+      crop: cropSchema.optional(),
+      quality: qualitySchema.optional(),
+      format: formatSchema.optional(),
+      title: z.string().optional(),
+      description: z.string().optional(),
+      copyright: z.string().optional(),
+      keywords: z.union([z.string().transform(parseKeywords), z.array(z.string())]).optional(),
+      altText: z.string().optional(),
+    })
+    .transform(({ currentName, newName, folder, watermark, crop, quality, format, ...fields }) => {
+      const metadata = metadataFromFields(fields);
+      return {
+        currentName,
+        newName: joinPath(folder, newName),
+        ...(watermark === undefined ? {} : { watermark }),
+        ...(crop === undefined ? {} : { crop }),
+        ...(quality === undefined ? {} : { quality }),
+        ...(format === undefined ? {} : { format }),
+        ...(metadata ? { metadata } : {}),
+      };
+    })
+);
+
+const describeIssues = (error: z.ZodError): string =>
+  error.issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')} ${issue.message}` : issue.message))
+    .join('; ');
+
+export function isJSONMappingFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return JSON_MAPPING_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+/**
+ * Parse a mapping from JSON text. Accepted shapes:
+ * - an array of `{ currentName, newName }` objects
+ * - an object map `{ "IMG_001.jpg": "sunset.jpg" }`
+ * - NDJSON: one `{ currentName, newName }` object per line
+ *
+ * Invalid entries are skipped and reported; `line` is the NDJSON line or,
+ * for a JSON array or object map, the 1-based entry index.
+ */
+export function parseMappingJSON(text: string): MappingImportResult {
+  const content = text.replace(/^\uFEFF/, '').trim();
+  if (!content) {
+    throw new Error('Mapping file is empty');
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    return parseNDJSON(content);
+  }
+
+  if (Array.isArray(parsed)) {
+    const mappings: CSVMapping[] = [];
+    const problems: CSVParseError[] = [];
+    parsed.forEach((value, index) => {
+      const result = entrySchema.safeParse(value);
+      if (result.success) {
+        mappings.push(result.data as CSVMapping);
+      } else {
+        problems.push({ line: index + 1, column: 1, message: `Entry ${index + 1}: ${describeIssues(result.error)}` });
+      }
+    });
+    return finish(mappings, problems);
+  }
+
+  // A lone `{ currentName, newName }` object is a one-line NDJSON file
+  if (parsed && typeof parsed === 'object' && ('currentName' in parsed || 'current_name' in parsed)) {
+    return parseNDJSON(content);
+  }
+
+  if (!parsed || typeof parsed !== 'object') {
+    throw new Error('Invalid mapping JSON: expected an array or an object of names');
+  }
+
+  // Object map: each key/value pair is checked on its own, like array entries
+  const mappings: CSVMapping[] = [];
+  const problems: CSVParseError[] = [];
+  Object.entries(parsed).forEach(([key, value], index) => {
+    const currentName = key.trim();
+    const result = nameSchema.safeParse(value);
+    if (!currentName) {
+      problems.push({ line: index + 1, column: 1, message: `Entry ${index + 1}: current name must not be empty` });
+    } else if (!result.success) {
+      problems.push({
+        line: index + 1,
+        column: 1,
+        message: `Entry ${index + 1} (${currentName}): new name ${describeIssues(result.error)}`,
+      });
+    } else {
+      mappings.push({ currentName, newName: result.data });
+    }
+  });
+  return finish(mappings, problems);
+}
+
+function parseNDJSON(content: string): MappingImportResult {
+  const mappings: CSVMapping[] = [];
+  const problems: CSVParseError[] = [];
+
+  content.split(/\r\n|\n|\r/).forEach((raw, index) => {
+    const line = index + 1;
+    if (!raw.trim()) return;
+
+    let value: unknown;
+    try {
+      value = JSON.parse(raw);
+    } catch (err) {
+      problems.push({ line, column: 1, message: err instanceof Error ? err.message : 'Invalid JSON' });
+      return;
+    }
+
+    const result = entrySchema.safeParse(value);
+    if (result.success) {
+      mappings.push(result.data as CSVMapping);
+    } else {
+      problems.push({ line, column: 1, message: describeIssues(result.error) });
+    }
+  });
+
+  return finish(mappings, problems);
+}
+
+const finish = (mappings: CSVMapping[], problems: CSVParseError[]): MappingImportResult => {
+  if (mappings.length === 0) {
+    throw new Error(
+      problems.length
+        ? `No valid mappings found (${problems[0].message})`
+        : 'No valid mappings found in JSON file'
+    );
+  }
+  return { mappings, problems };
+};
+
+export interface ColumnSelection {
+  currentColumn: number;
+  newColumn: number;
+  /** Column holding a folder for the new name; -1 or absent for none */
+  folderColumn?: number;
+  /** Column switching the watermark per row (yes/no); -1 or absent for none */
+  watermarkColumn?: number;
+  /** Column with a crop rectangle as "x,y,width,height"; -1 or absent for none */
+  cropColumn?: number;
+  /** Column with an encoder quality, as 0-1 or a percentage; -1 or absent for none */
+  qualityColumn?: number;
+  /** Column with an output format such as jpg or webp; -1 or absent for none */
+  formatColumn?: number;
+  /** Columns with metadata fields for each image; -1 or absent for none */
+  titleColumn?: number;
+  descriptionColumn?: number;
+  copyrightColumn?: number;
+  keywordsColumn?: number;
+  altTextColumn?: number;
+}
+
+/** The columns besides the two names, each of which may be unset */
+export type OptionalColumn = Exclude<keyof ColumnSelection, 'currentColumn' | 'newColumn'>;
+
+export interface TableMappingOptions extends ColumnSelection {
+  /** Whether the first record holds column names rather than data */
+  hasHeader: boolean;
+}
+
+const CURRENT_COLUMN_WORDS = ['current', 'old', 'original', 'from', 'source', 'src'];
+const NEW_COLUMN_WORDS = ['new', 'rename', 'renamed', 'target', 'to', 'dest', 'destination'];
+const NAME_COLUMN_WORDS = ['name', 'file', 'filename', 'image', 'photo'];
+const FOLDER_COLUMN_WORDS = ['folder', 'folders', 'directory', 'dir', 'subfolder'];
+const WATERMARK_COLUMN_WORDS = ['watermark', 'watermarked'];
+const CROP_COLUMN_WORDS = ['crop', 'cropbox', 'cropping'];
+const QUALITY_COLUMN_WORDS = ['quality'];
+const FORMAT_COLUMN_WORDS = ['format', 'filetype'];
+
+// `header` is the column name used when exporting to CSV
+const METADATA_COLUMNS: { field: MetadataField; key: OptionalColumn; header: string; words: string[] }[] = [
+  { field: 'title', key: 'titleColumn', header: 'title', words: ['title', 'headline'] },
+  { field: 'description', key: 'descriptionColumn', header: 'description', words: ['description', 'caption', 'desc'] },
+  { field: 'copyright', key: 'copyrightColumn', header: 'copyright', words: ['copyright', 'rights'] },
+  { field: 'keywords', key: 'keywordsColumn', header: 'keywords', words: ['keywords', 'keyword', 'tags', 'tag'] },
+  { field: 'altText', key: 'altTextColumn', header: 'alt_text', words: ['alt', 'alttext', 'accessibility'] },
+];
+
+// Split "notes_old_sku" / "currentName" / "New File Name" into lowercase words
+const headerWords = (header: string): string[] =>
+  header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+
+// Share of a header's words that say "this is the column we want", so that
+// `old_name` beats `notes_old_sku` even though both contain "old"
+const scoreHeader = (header: string, keywords: string[]): number => {
+  const words = headerWords(header);
+  if (words.length === 0) return 0;
+  let score = 0;
+  for (const word of words) {
+    if (keywords.includes(word)) score += 2;
+    else if (NAME_COLUMN_WORDS.includes(word)) score += 1;
+  }
+  // A column named only "name"/"file" says nothing about its direction
+  return words.some((word) => keywords.includes(word)) ? score / words.length : 0;
+};
+
+const bestColumn = (headers: string[], keywords: string[], exclude = -1): number => {
+  let best = -1;
+  let bestScore = 0;
+  headers.forEach((header, index) => {
+    const score = index === exclude ? 0 : scoreHeader(header, keywords);
+    if (score > bestScore) {
+      best = index;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+/** Default column choice for a header row; falls back to the first two columns */
+export function guessColumns(headers: string[]): ColumnSelection {
+  let currentColumn = bestColumn(headers, CURRENT_COLUMN_WORDS);
+  let newColumn = bestColumn(headers, NEW_COLUMN_WORDS, currentColumn);
+
+  if (currentColumn === -1) {
+    currentColumn = newColumn === 0 ? 1 : 0;
+  }
+  if (newColumn === -1) {
+    newColumn = currentColumn === 1 ? 0 : 1;
+    if (newColumn === currentColumn) newColumn = currentColumn + 1;
+  }
+  let folderColumn = bestColumn(headers, FOLDER_COLUMN_WORDS);
+  if (folderColumn === currentColumn || folderColumn === newColumn) folderColumn = -1;
+  const watermarkColumn = bestColumn(headers, WATERMARK_COLUMN_WORDS, currentColumn);
+  const cropColumn = bestColumn(headers, CROP_COLUMN_WORDS, currentColumn);
+  const qualityColumn = bestColumn(headers, QUALITY_COLUMN_WORDS, currentColumn);
+  const formatColumn = bestColumn(headers, FORMAT_COLUMN_WORDS, currentColumn);
+  const selection: ColumnSelection = {
+    currentColumn,
+    newColumn,
+    folderColumn,
+    watermarkColumn: watermarkColumn === newColumn ? -1 : watermarkColumn,
+    cropColumn: cropColumn === newColumn ? -1 : cropColumn,
+    qualityColumn: qualityColumn === newColumn ? -1 : qualityColumn,
+    formatColumn: formatColumn === newColumn ? -1 : formatColumn,
+  };
+  for (const { key, words } of METADATA_COLUMNS) {
+    const column = bestColumn(headers, words, currentColumn);
+    selection[key] = column === newColumn ? -1 : column;
+  }
+  return selection;
+}
+
+const COLUMN_CHOICES_KEY = 'image-renamer.column-choices';
+
+/** Identifies a header row regardless of case, spacing and delimiter */
+export const headerSignature = (headers: string[]): string =>
+  headers.map((header) => header.trim().toLowerCase()).join('\u001f');
+
+const readColumnChoices = (): Record<string, ColumnSelection> => {
+  try {
+    return JSON.parse(localStorage.getItem(COLUMN_CHOICES_KEY) ?? '{}') ?? {};
+  } catch {
+    return {};
+  }
+};
+
+export function loadColumnChoice(headers: string[]): ColumnSelection | null {
+  const choice = readColumnChoices()[headerSignature(headers)];
+  if (!choice || Object.values(choice).some((column) => typeof column === 'number' && column >= headers.length)) {
+    return null;
+  }
+  return choice;
+}
+
+export function saveColumnChoice(headers: string[], selection: ColumnSelection) {
+  try {
+    const choices = readColumnChoices();
+    choices[headerSignature(headers)] = selection;
+    localStorage.setItem(COLUMN_CHOICES_KEY, JSON.stringify(choices));
+  } catch {
+    // Storage may be full or disabled; remembering the choice is best-effort
+  }
+}
+
+const TRUE_FLAGS = ['yes', 'y', 'true', '1', 'on', 'x'];
+const FALSE_FLAGS = ['no', 'n', 'false', '0', 'off', 'skip', 'none'];
+
+/** Read a yes/no cell; null when it is neither */
+export function parseFlag(value: string): boolean | null {
+  const lower = value.trim().toLowerCase();
+  if (TRUE_FLAGS.includes(lower)) return true;
+  if (FALSE_FLAGS.includes(lower)) return false;
+  return null;
+}
+
+/** Read a quality as a percentage (85, 85%) or a fraction (0.85); null when out of range */
+export function parseQuality(value: string): number | null {
+  const match = /^(\d+(?:\.\d+)?|\.\d+)\s*(%?)$/.exec(value.trim());
+  if (!match) return null;
+  const number = Number(match[1]);
+  // "1" is taken as full quality rather than 1%
+  const quality = match[2] || number > 1 ? number / 100 : number;
+  return quality > 0 && quality <= 1 ? quality : null;
+}
+
+/** Read an output format by name, extension or label ("jpg", ".webp", "JPEG", "keep") */
+export function parseOutputFormat(value: string): OutputFormat | null {
+  const lower = value.trim().toLowerCase().replace(/^\./, '');
+  if (lower === 'keep' || lower === 'same') return 'original';
+  const found = OUTPUT_FORMATS.find(
+    ({ format, label, extension }) => lower === format || lower === extension || lower === label.toLowerCase()
+  );
+  return found?.format ?? null;
+}
+
+/**
+ * Build mappings from tabular records (CSV or spreadsheet rows). Rows that
+ * are too short or miss a name are reported with their line rather than
+ * silently dropped.
+ */
+export function mappingFromRecords(
+  records: CSVRecord[],
+  options: TableMappingOptions,
+  errors: CSVParseError[] = []
+): MappingImportResult {
+  const {
+    hasHeader,
+    currentColumn,
+    newColumn,
+    folderColumn = -1,
+    watermarkColumn = -1,
+    cropColumn = -1,
+    qualityColumn = -1,
+    formatColumn = -1,
+  } = options;
+  const rows = hasHeader ? records.slice(1) : records;
+  if (rows.length === 0) {
+    throw new Error(
+      hasHeader ? 'Mapping must have at least a header row and one data row' : 'Mapping has no data rows'
+    );
+  }
+  if (currentColumn === newColumn) {
+    throw new Error('Current name and new name must come from different columns');
+  }
+  if (folderColumn >= 0 && (folderColumn === currentColumn || folderColumn === newColumn)) {
+    throw new Error('The folder must come from a column of its own');
+  }
+
+  const neededLen = Math.max(currentColumn, newColumn) + 1;
+  const mappings: CSVMapping[] = [];
+  const problems: CSVParseError[] = [...errors];
+
+  for (const { fields, line } of rows) {
+    if (fields.length < neededLen) {
+      problems.push({
+        line,
+        column: fields.length + 1,
+        message: `Expected at least ${neededLen} columns, found ${fields.length}`,
+      });
+      continue;
+    }
+
+    const currentName = fields[currentColumn].trim();
+    const newName = fields[newColumn].trim();
+
+    if (!currentName || !newName) {
+      problems.push({
+        line,
+        column: (currentName ? newColumn : currentColumn) + 1,
+        message: currentName ? 'Missing new name' : 'Missing current name',
+      });
+      continue;
+    }
+
+    // Short rows simply have no folder, watermark, crop, output or metadata setting
+    const folder = folderColumn >= 0 ? fields[folderColumn]?.trim() : '';
+    const entry: CSVMapping = { currentName, newName: folder ? joinPath(folder, newName) : newName };
+
+    const watermark = watermarkColumn >= 0 ? fields[watermarkColumn]?.trim() ?? '' : '';
+    if (watermark) {
+      const flag = parseFlag(watermark);
+      if (flag === null) {
+        problems.push({
+          line,
+          column: watermarkColumn + 1,
+          message: `Watermark value "${watermark}" is not yes or no; using the batch setting`,
+        });
+      } else {
+        entry.watermark = flag;
+      }
+    }
+
+    const crop = cropColumn >= 0 ? fields[cropColumn]?.trim() ?? '' : '';
+    if (crop) {
+      const rect = parseCropRect(crop);
+      if (!rect) {
+        problems.push({
+          line,
+          column: cropColumn + 1,
+          message: `Crop "${crop}" is not x,y,width,height; the image is not cropped`,
+        });
+      } else {
+        entry.crop = rect;
+      }
+    }
+
+    const quality = qualityColumn >= 0 ? fields[qualityColumn]?.trim() ?? '' : '';
+    if (quality) {
+      const value = parseQuality(quality);
+      if (value === null) {
+        problems.push({
+          line,
+          column: qualityColumn + 1,
+          message: `Quality "${quality}" is not a fraction from 0 to 1 or a percentage; using the batch setting`,
+        });
+      } else {
+        entry.quality = value;
+      }
+    }
+
+    const format = formatColumn >= 0 ? fields[formatColumn]?.trim() ?? '' : '';
+    if (format) {
+      const value = parseOutputFormat(format);
+      if (!value) {
+        problems.push({
+          line,
+          column: formatColumn + 1,
+          message: `Format "${format}" is not one of ${FORMAT_NAMES}; using the batch setting`,
+        });
+      } else {
+        entry.format = value;
+      }
+    }
+
+    const metadata = metadataFromFields(
+      Object.fromEntries(
+        METADATA_COLUMNS.map(({ field, key }) => {
+          const value = (options[key] ?? -1) >= 0 ? fields[options[key]!] ?? '' : '';
+          return [field, field === 'keywords' ? parseKeywords(value) : value];
+        })
+      )
+    );
+    if (metadata) entry.metadata = metadata;
+
+    mappings.push(entry);
+  }
+
+  if (mappings.length === 0) {
+    throw new Error(
+      'No valid mappings found. Check the delimiter and the selected columns for current and new names.'
+    );
+  }
+
+  problems.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { mappings, problems };
+}
+
+const exportEntry = ({ currentName, newName, watermark, crop, quality, format, metadata }: CSVMapping) => ({
+  currentName,
+  newName,
+  ...(watermark === undefined ? {} : { watermark }),
+  ...(crop === undefined ? {} : { crop }),
+  ...(quality === undefined ? {} : { quality }),
+  ...(format === undefined ? {} : { format }),
+  ...metadata,
+});
+
+export function serializeMapping(mapping: CSVMapping[], format: MappingFormat): string {
+  switch (format) {
+    case 'csv': {
+      // Only write the optional columns some row sets
+      const flag = (value?: boolean) => (value === undefined ? '' : value ? 'yes' : 'no');
+      const columns: [string, (entry: CSVMapping) => string][] = [
+        ['current_name', (entry) => entry.currentName],
+        ['new_name', (entry) => entry.newName],
+      ];
+      if (mapping.some((entry) => entry.watermark !== undefined)) {
+        columns.push(['watermark', (entry) => flag(entry.watermark)]);
+      }
+      if (mapping.some((entry) => entry.crop !== undefined)) {
+        columns.push(['crop', (entry) => (entry.crop ? formatCropRect(entry.crop) : '')]);
+      }
+      if (mapping.some((entry) => entry.quality !== undefined)) {
+        // Written as the fraction: a rounded percentage could read back as a different quality
+        columns.push(['quality', (entry) => (entry.quality === undefined ? '' : String(entry.quality))]);
+      }
+      if (mapping.some((entry) => entry.format !== undefined)) {
+        columns.push(['format', (entry) => entry.format ?? '']);
+      }
+      for (const { field, header } of METADATA_COLUMNS) {
+        if (mapping.some((entry) => entry.metadata?.[field] !== undefined)) {
+          columns.push([
+            header,
+            ({ metadata }) => {
+              const value = metadata?.[field];
+              return Array.isArray(value) ? value.join('; ') : value ?? '';
+            },
+          ]);
+        }
+      }
+      return serializeCSV([
+        columns.map(([header]) => header),
+        ...mapping.map((entry) => columns.map(([, value]) => value(entry))),
+      ]);
+    }
+    case 'json':
+      return JSON.stringify(mapping.map(exportEntry), null, 2);
+    case 'ndjson':
+      return mapping.map((entry) => JSON.stringify(exportEntry(entry))).join('\n') + '\n';
+  }
+}
+
+const MAPPING_MIME_TYPES: Record<MappingFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  ndjson: 'application/x-ndjson',
+};
+
+export function downloadMapping(mapping: CSVMapping[], format: MappingFormat, baseName = 'image_mapping') {
+  const blob = new Blob([serializeMapping(mapping, format)], { type: MAPPING_MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,259 @@
+import type { CSVMapping } from '@/lib/mapping';
+import { joinPath, pathSegments, stripImageExtension } from '@/lib/filenames';
+
+// Match engine for mapping rows. Every enabled mode is tried against every
+// image; when several rows match, the most specific one wins:
+//   1. mode precedence (order of MATCH_MODES)
+//   2. specificity within the mode (longer prefix, more literal glob text,
+//      a folder path over a bare file name)
+//   3. row order in the mapping
+//
+// Images are matched by their relative path ("shoes/front.jpg"). Rows without
+// a folder compare against the file name alone; rows with one compare against
+// the whole path.
+
+export type MatchMode = 'exact' | 'exact-no-ext' | 'case-insensitive' | 'prefix' | 'glob' | 'regex';
+
+export const MATCH_MODES: { mode: MatchMode; label: string; description: string }[] = [
+  { mode: 'exact', label: 'Exact', description: 'File name equals the current name' },
+  {
+    mode: 'exact-no-ext',
+    label: 'Exact, ignoring extension',
+    description: 'IMG_001 matches IMG_001.jpg',
+  },
+  { mode: 'case-insensitive', label: 'Case-insensitive', description: 'img_001.JPG matches IMG_001.jpg' },
+  { mode: 'prefix', label: 'Prefix', description: 'IMG_1 matches IMG_1_front.jpg' },
+  { mode: 'glob', label: 'Glob', description: 'IMG_*.jpg, shot_??.png' },
+  { mode: 'regex', label: 'Regex', description: '^IMG_\\d+$ or /img_\\d+/i' },
+];
+
+export const DEFAULT_MATCH_MODES: MatchMode[] = ['exact', 'exact-no-ext', 'case-insensitive'];
+
+export interface MatchCandidate {
+  mappingIndex: number;
+  entry: CSVMapping;
+  mode: MatchMode;
+  /** Higher is more specific; only compared within the same mode */
+  specificity: number;
+}
+
+export interface ImageMatch {
+  /** The winning rule, or null when nothing matched */
+  best: MatchCandidate | null;
+  /**
+   * Rows applied to the image: the winner plus any rows repeating its
+   * current name, so one source can be emitted under several names
+   */
+  outputs: MatchCandidate[];
+  /** Every matching rule, best first */
+  candidates: MatchCandidate[];
+}
+
+const modeRank = (mode: MatchMode) => MATCH_MODES.findIndex((m) => m.mode === mode);
+
+const compareCandidates = (a: MatchCandidate, b: MatchCandidate) =>
+  modeRank(a.mode) - modeRank(b.mode) || b.specificity - a.specificity || a.mappingIndex - b.mappingIndex;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const ch = glob[i];
+    if (ch === '*') {
+      if (glob[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[') {
+      const end = glob.indexOf(']', i + 1);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+        source += `[${body}]`;
+        i = end;
+      }
+    } else {
+      source += escapeRegExp(ch);
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Accepts `pattern` or `/pattern/flags`; returns null for invalid patterns */
+export function parseRegExp(pattern: string): RegExp | null {
+  const literal = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    return literal ? new RegExp(literal[1], literal[2].replace(/[gy]/g, '')) : new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+export function describeMatch(candidate: MatchCandidate): string {
+  const { entry, mode, mappingIndex } = candidate;
+  const rule = `row ${mappingIndex + 1}`;
+  switch (mode) {
+    case 'exact':
+      return `Exact match on "${entry.currentName}" (${rule})`;
+    case 'exact-no-ext':
+      return `Exact match ignoring extension on "${entry.currentName}" (${rule})`;
+    case 'case-insensitive':
+      return `Case-insensitive match on "${entry.currentName}" (${rule})`;
+    case 'prefix':
+      return `Prefix "${entry.currentName}" (${rule})`;
+    case 'glob':
+      return `Glob ${entry.currentName} (${rule})`;
+    case 'regex':
+      return `Regex ${entry.currentName} (${rule})`;
+  }
+}
+
+// "shoes\front.jpg" and "./shoes/front.jpg" look up as "shoes/front.jpg"
+const pathKey = (currentName: string) => joinPath(currentName) || currentName;
+
+/**
+ * Compile a mapping into a matcher function. Exact modes use hash lookups so
+ * large mappings stay fast; prefix, glob and regex rules are scanned.
+ */
+export function createMatcher(mapping: CSVMapping[], modes: MatchMode[] = DEFAULT_MATCH_MODES) {
+  const enabled = new Set(modes);
+  const byExact = new Map<string, number[]>();
+  const byBase = new Map<string, number[]>();
+  const byLower = new Map<string, number[]>();
+  const globs: { index: number; re: RegExp; literal: number }[] = [];
+  const regexes: { index: number; re: RegExp }[] = [];
+
+  const add = (map: Map<string, number[]>, key: string, index: number) => {
+    const list = map.get(key);
+    if (list) list.push(index);
+    else map.set(key, [index]);
+  };
+
+  mapping.forEach(({ currentName }, index) => {
+    const key = pathKey(currentName);
+    add(byExact, key, index);
+    add(byBase, stripImageExtension(key), index);
+    add(byLower, key.toLowerCase(), index);
+    add(byLower, stripImageExtension(key).toLowerCase(), index);
+    if (enabled.has('glob')) {
+      globs.push({ index, re: globToRegExp(currentName), literal: currentName.replace(/[*?[\]]/g, '').length });
+    }
+    if (enabled.has('regex')) {
+      const re = parseRegExp(currentName);
+      if (re) regexes.push({ index, re });
+    }
+  });
+
+  return (path: string): ImageMatch => {
+    const segments = pathSegments(path);
+    const fileName = segments[segments.length - 1] ?? path;
+    // The bare file name, then the full path when the image is in a folder
+    const names = segments.length > 1 ? [fileName, segments.join('/')] : [fileName];
+    const found = new Map<number, MatchCandidate>();
+
+    // Each row is reported once, under its most specific mode
+    const push = (index: number, mode: MatchMode, specificity: number) => {
+      const candidate = { mappingIndex: index, entry: mapping[index], mode, specificity };
+      const existing = found.get(index);
+      if (!existing || compareCandidates(candidate, existing) < 0) found.set(index, candidate);
+    };
+
+    names.forEach((name, depth) => {
+      const base = stripImageExtension(name);
+
+      if (enabled.has('exact')) {
+        byExact.get(name)?.forEach((index) => push(index, 'exact', depth));
+      }
+      if (enabled.has('exact-no-ext')) {
+        byBase.get(base)?.forEach((index) => push(index, 'exact-no-ext', depth));
+      }
+      if (enabled.has('case-insensitive')) {
+        const lowerName = name.toLowerCase();
+        const lowerBase = base.toLowerCase();
+        for (const key of new Set([lowerName, lowerBase])) {
+          byLower.get(key)?.forEach((index) => {
+            const target = pathKey(mapping[index].currentName).toLowerCase();
+            if (target === lowerName || stripImageExtension(target) === lowerBase) {
+              push(index, 'case-insensitive', depth);
+            }
+          });
+        }
+      }
+      if (enabled.has('prefix')) {
+        mapping.forEach(({ currentName }, index) => {
+          if (currentName && name.startsWith(currentName)) push(index, 'prefix', currentName.length);
+        });
+      }
+      for (const { index, re, literal } of globs) {
+        if (re.test(name) || re.test(base)) push(index, 'glob', literal);
+      }
+      for (const { index, re } of regexes) {
+        if (re.test(name) || re.test(base)) push(index, 'regex', re.source.length);
+      }
+    });
+
+    const candidates = [...found.values()].sort(compareCandidates);
+    const best = candidates[0] ?? null;
+    const outputs = best
+      ? candidates
+          .filter((c) => c.mode === best.mode && c.entry.currentName === best.entry.currentName)
+          .sort((a, b) => a.mappingIndex - b.mappingIndex)
+      : [];
+    return { best, outputs, candidates };
+  };
+}
+
+export interface MatchReport<T> {
+  /** Items with a winning rule, in input order */
+  matched: { item: T; match: ImageMatch }[];
+  /** Items no rule matched; these are left out of the output */
+  unmatched: T[];
+  /** Mapping rows that matched no item */
+  unusedRows: { mappingIndex: number; entry: CSVMapping }[];
+  /**
+   * Items matched by rows with different current names; only `match.outputs`
+   * are applied. Repeated rows for the same name are copies, not ambiguity.
+   */
+  ambiguous: { item: T; match: ImageMatch }[];
+}
+
+/**
+ * Dry-run the matcher over a batch so problems are visible before any image
+ * is processed. `nameOf` picks the name each item is matched on.
+ */
+export function buildMatchReport<T>(
+  items: T[],
+  nameOf: (item: T) => string,
+  mapping: CSVMapping[],
+  modes: MatchMode[] = DEFAULT_MATCH_MODES
+): MatchReport<T> {
+  const matchName = createMatcher(mapping, modes);
+  const usedRows = new Set<number>();
+  const report: MatchReport<T> = { matched: [], unmatched: [], unusedRows: [], ambiguous: [] };
+
+  for (const item of items) {
+    const match = matchName(nameOf(item));
+    match.candidates.forEach((candidate) => usedRows.add(candidate.mappingIndex));
+
+    if (!match.best) {
+      report.unmatched.push(item);
+      continue;
+    }
+    report.matched.push({ item, match });
+    if (match.candidates.length > match.outputs.length) {
+      report.ambiguous.push({ item, match });
+    }
+  }
+
+  mapping.forEach((entry, mappingIndex) => {
+    if (!usedRows.has(mappingIndex)) report.unusedRows.push({ mappingIndex, entry });
+  });
+
+  return report;
+}
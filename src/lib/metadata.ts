@@ -0,0 +1,768 @@
+import {
+  entryValueRange,
+  EXIF_TAGS,
+  exifItemTiff,
+  findHeicExif,
+  findIfdEntry,
+  findImageTag,
+  findJpegExif,
+} from '@/lib/exif';
+
+// Metadata carried from source files into outputs. Canvas encoding writes
+// bare pixels, so EXIF, IPTC and XMP are read from the source and spliced
+// into the JPEG, PNG or WebP container afterwards. The same splicing lets a
+// pure rename strip or edit metadata without touching the pixels.
+
+export type MetadataMode = 'keep' | 'strip-gps' | 'strip';
+
+export const METADATA_MODES: { mode: MetadataMode; label: string; description: string }[] = [
+  { mode: 'keep', label: 'Keep all', description: 'Copy EXIF, IPTC and XMP from the original' },
+  { mode: 'strip-gps', label: 'Keep, without location', description: 'Copy metadata but remove GPS coordinates' },
+  { mode: 'strip', label: 'Strip all', description: 'Write only the fields set here or in the mapping' },
+];
+
+export interface MetadataFields {
+  title: string;
+  description: string;
+  copyright: string;
+  keywords: string[];
+  /** Accessibility text describing the image, as in an HTML alt attribute */
+  altText: string;
+}
+
+export type MetadataField = keyof MetadataFields;
+
+export const METADATA_FIELDS: { field: MetadataField; label: string }[] = [
+  { field: 'title', label: 'Title' },
+  { field: 'description', label: 'Description' },
+  { field: 'copyright', label: 'Copyright' },
+  { field: 'keywords', label: 'Keywords' },
+  { field: 'altText', label: 'Alt text' },
+];
+
+export interface MetadataOptions {
+  mode: MetadataMode;
+  /** Written to every output; mapping columns override them per image */
+  fields: MetadataFields;
+}
+
+export const DEFAULT_METADATA_OPTIONS: MetadataOptions = {
+  mode: 'keep',
+  fields: { title: '', description: '', copyright: '', keywords: [], altText: '' },
+};
+
+/** Split a "red; shoes, summer" cell into keywords */
+export const parseKeywords = (value: string): string[] =>
+  Array.from(new Set(value.split(/[;,]/).map((keyword) => keyword.trim()).filter(Boolean)));
+
+const isSet = (fields: Partial<MetadataFields>, field: MetadataField) =>
+  field === 'keywords' ? !!fields.keywords?.length : !!fields[field];
+
+const hasFields = (fields: Partial<MetadataFields>) => METADATA_FIELDS.some(({ field }) => isSet(fields, field));
+
+/** Batch fields with a mapping row's values on top; keywords from both are kept */
+export function mergeFields(batch: MetadataFields, row: Partial<MetadataFields> = {}): MetadataFields {
+  return {
+    title: row.title || batch.title,
+    description: row.description || batch.description,
+    copyright: row.copyright || batch.copyright,
+    keywords: Array.from(new Set([...batch.keywords, ...(row.keywords ?? [])])),
+    altText: row.altText || batch.altText,
+  };
+}
+
+/** True when the options leave a file's metadata exactly as it is */
+export const keepsMetadata = (options: MetadataOptions, row?: Partial<MetadataFields>) =>
+  options.mode === 'keep' && !hasFields(mergeFields(options.fields, row));
+
+// --- Bytes -----------------------------------------------------------------
+
+const latin1 = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+const ascii = (text: string) => Uint8Array.from(text, (c) => c.charCodeAt(0));
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+const uint16 = (value: number) => Uint8Array.of(value >> 8, value & 0xff);
+const uint32 = (value: number, little = false) => {
+  const bytes = new Uint8Array(4);
+  new DataView(bytes.buffer).setUint32(0, value, little);
+  return bytes;
+};
+
+const isJpeg = (bytes: Uint8Array) => bytes[0] === 0xff && bytes[1] === 0xd8;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const isPng = (bytes: Uint8Array) => PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+const isWebp = (bytes: Uint8Array) => latin1(bytes, 0, 4) === 'RIFF' && latin1(bytes, 8, 4) === 'WEBP';
+
+// --- Reading ---------------------------------------------------------------
+
+export interface SourceMetadata {
+  /** TIFF block of the EXIF data */
+  exif: Uint8Array | null;
+  /** IPTC-IIM datasets */
+  iptc: Uint8Array | null;
+  /** XMP packet */
+  xmp: string | null;
+}
+
+const XMP_JPEG_ID = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_ID = 'Photoshop 3.0\0';
+const IPTC_RESOURCE = 0x0404;
+const XMP_PNG_KEYWORD = 'XML:com.adobe.xmp';
+
+interface Segment {
+  marker: number;
+  start: number;
+  end: number;
+}
+
+// Marker segments of a JPEG up to the start of scan
+const jpegSegments = (bytes: Uint8Array): { segments: Segment[]; scan: number } => {
+  const segments: Segment[] = [];
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    segments.push({ marker, start: offset, end: Math.min(end, bytes.length) });
+    offset = end;
+  }
+  return { segments, scan: offset };
+};
+
+// IPTC-IIM data inside the resource blocks of a Photoshop APP13 segment
+const readPhotoshopIptc = (bytes: Uint8Array, start: number, end: number): Uint8Array | null => {
+  let offset = start;
+  while (offset + 12 <= end && latin1(bytes, offset, 4) === '8BIM') {
+    const id = (bytes[offset + 4] << 8) | bytes[offset + 5];
+    const nameLength = bytes[offset + 6];
+    // The Pascal-string name is padded to an even length
+    const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (sizeOffset + 4 > end) break;
+    const size = new DataView(bytes.buffer, bytes.byteOffset + sizeOffset, 4).getUint32(0);
+    const data = sizeOffset + 4;
+    if (id === IPTC_RESOURCE) return bytes.slice(data, Math.min(data + size, end));
+    offset = data + size + (size % 2);
+  }
+  return null;
+};
+
+interface Chunk {
+  type: string;
+  start: number;
+  /** Offset of the chunk's data */
+  data: number;
+  length: number;
+  end: number;
+}
+
+const pngChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset + 12 <= bytes.length; ) {
+    const length = view.getUint32(offset);
+    const end = offset + 12 + length;
+    if (end > bytes.length) break;
+    chunks.push({ type: latin1(bytes, offset + 4, 4), start: offset, data: offset + 8, length, end });
+    offset = end;
+  }
+  return chunks;
+};
+
+const webpChunks = (bytes: Uint8Array): Chunk[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 12; offset + 8 <= bytes.length; ) {
+    const length = view.getUint32(offset + 4, true);
+    const end = Math.min(offset + 8 + length + (length % 2), bytes.length);
+    chunks.push({ type: latin1(bytes, offset, 4), start: offset, data: offset + 8, length, end });
+    offset = end;
+  }
+  return chunks;
+};
+
+const pngKeyword = (bytes: Uint8Array, chunk: Chunk) => {
+  const zero = bytes.indexOf(0, chunk.data);
+  return zero === -1 || zero >= chunk.data + chunk.length ? '' : latin1(bytes, chunk.data, zero - chunk.data);
+};
+
+// iTXt: keyword, 0, compression flag, method, language, 0, translated keyword, 0, text
+const readPngXmp = (bytes: Uint8Array, chunk: Chunk): string | null => {
+  let offset = chunk.data + XMP_PNG_KEYWORD.length + 1;
+  const compressed = bytes[offset];
+  if (compressed) return null;
+  offset += 2;
+  offset = bytes.indexOf(0, offset) + 1;
+  offset = bytes.indexOf(0, offset) + 1;
+  if (offset <= 0 || offset > chunk.data + chunk.length) return null;
+  return new TextDecoder().decode(bytes.subarray(offset, chunk.data + chunk.length));
+};
+
+/**
+ * EXIF, IPTC and XMP of a JPEG, PNG or WebP, and the EXIF of a HEIC.
+ * Compressed PNG text and JPEG extended XMP are not read.
+ */
+export function readMetadata(bytes: Uint8Array): SourceMetadata {
+  const metadata: SourceMetadata = { exif: null, iptc: null, xmp: null };
+
+  if (isJpeg(bytes)) {
+    const tiff = findJpegExif(bytes);
+    if (tiff) metadata.exif = new Uint8Array(tiff.buffer, tiff.byteOffset, tiff.byteLength).slice();
+    for (const { marker, start, end } of jpegSegments(bytes).segments) {
+      const body = start + 4;
+      if (marker === 0xe1 && !metadata.xmp && latin1(bytes, body, XMP_JPEG_ID.length) === XMP_JPEG_ID) {
+        metadata.xmp = new TextDecoder().decode(bytes.subarray(body + XMP_JPEG_ID.length, end));
+      } else if (marker === 0xed && latin1(bytes, body, PHOTOSHOP_ID.length) === PHOTOSHOP_ID) {
+        metadata.iptc = readPhotoshopIptc(bytes, body + PHOTOSHOP_ID.length, end);
+      }
+    }
+  } else if (isPng(bytes)) {
+    for (const chunk of pngChunks(bytes)) {
+      if (chunk.type === 'eXIf') {
+        metadata.exif = bytes.slice(chunk.data, chunk.data + chunk.length);
+      } else if (chunk.type === 'iTXt' && pngKeyword(bytes, chunk) === XMP_PNG_KEYWORD) {
+        metadata.xmp = readPngXmp(bytes, chunk);
+      }
+    }
+  } else if (isWebp(bytes)) {
+    for (const chunk of webpChunks(bytes)) {
+      const data = bytes.subarray(chunk.data, chunk.data + chunk.length);
+      if (chunk.type === 'EXIF') {
+        // Some writers keep the JPEG "Exif\0\0" prefix
+        metadata.exif = (latin1(data, 0, 6) === 'Exif\0\0' ? data.subarray(6) : data).slice();
+      } else if (chunk.type === 'XMP ') {
+        metadata.xmp = new TextDecoder().decode(data);
+      }
+    }
+  } else {
+    const location = findHeicExif(bytes);
+    const tiff = location && exifItemTiff(bytes.subarray(location.offset, location.offset + location.length));
+    if (tiff) metadata.exif = new Uint8Array(tiff.buffer, tiff.byteOffset, tiff.byteLength).slice();
+  }
+  return metadata;
+}
+
+// --- Preparing -------------------------------------------------------------
+
+export interface MetadataPlan {
+  mode: MetadataMode;
+  fields: MetadataFields;
+  /**
+   * Whether the output pixels were turned upright, so the EXIF orientation
+   * must be reset; false when the original pixels are kept.
+   */
+  upright: boolean;
+  /** Pixel size of a re-encoded output, written over the source's EXIF dimensions */
+  size?: { width: number; height: number };
+}
+
+interface MetadataBlocks {
+  exif: Uint8Array | null;
+  iptc: Uint8Array | null;
+  xmp: string | null;
+}
+
+// Zero an entry's value and, for values stored elsewhere, the data it points to
+const clearEntryValue = (tiff: DataView, entry: number, little: boolean) => {
+  const range = entryValueRange(tiff, entry, little);
+  if (range) new Uint8Array(tiff.buffer, tiff.byteOffset + range.offset, range.size).fill(0);
+};
+
+// IFD1 tags locating the embedded JPEG thumbnail
+const THUMBNAIL_OFFSET = 0x0201;
+const THUMBNAIL_LENGTH = 0x0202;
+const SUB_IFD_TAGS: number[] = [EXIF_TAGS.ExifIFDPointer, EXIF_TAGS.GPSInfoIFDPointer, EXIF_TAGS.InteropIFDPointer];
+
+// Where the IFD at `ifd`, its values and its sub-IFDs end
+const ifdEnd = (tiff: DataView, ifd: number, little: boolean, depth = 0): number => {
+  if (ifd <= 0 || ifd + 2 > tiff.byteLength || depth > 3) return 0;
+  const count = tiff.getUint16(ifd, little);
+  let end = Math.min(ifd + 6 + count * 12, tiff.byteLength);
+  for (let entry = ifd + 2; entry + 12 <= Math.min(end, tiff.byteLength); entry += 12) {
+    const range = entryValueRange(tiff, entry, little);
+    if (range) end = Math.max(end, range.offset + range.size);
+    if (SUB_IFD_TAGS.includes(tiff.getUint16(entry, little))) {
+      end = Math.max(end, ifdEnd(tiff, tiff.getUint32(entry + 8, little), little, depth + 1));
+    }
+  }
+  return end;
+};
+
+// Unlink IFD1 and blank its preview of the source image, which no longer
+// matches re-encoded pixels, then cut the block after the last byte IFD0
+// and its sub-IFDs use
+const dropThumbnail = (exif: Uint8Array, little: boolean): Uint8Array => {
+  const tiff = new DataView(exif.buffer);
+  const ifd0 = tiff.getUint32(4, little);
+  if (ifd0 + 2 > tiff.byteLength) return exif;
+  const next = ifd0 + 2 + tiff.getUint16(ifd0, little) * 12;
+  if (next + 4 > tiff.byteLength) return exif;
+  const ifd1 = tiff.getUint32(next, little);
+  tiff.setUint32(next, 0, little);
+
+  if (ifd1 > 0 && ifd1 + 2 <= tiff.byteLength) {
+    const offset = findIfdEntry(tiff, ifd1, THUMBNAIL_OFFSET, little);
+    const length = findIfdEntry(tiff, ifd1, THUMBNAIL_LENGTH, little);
+    if (offset !== null && length !== null) {
+      const start = tiff.getUint32(offset + 8, little);
+      exif.fill(0, start, Math.min(start + tiff.getUint32(length + 8, little), exif.length));
+    }
+    const count = tiff.getUint16(ifd1, little);
+    for (let entry = ifd1 + 2; entry + 12 <= Math.min(ifd1 + 2 + count * 12, tiff.byteLength); entry += 12) {
+      clearEntryValue(tiff, entry, little);
+    }
+    exif.fill(0, ifd1, Math.min(ifd1 + 6 + count * 12, exif.length));
+  }
+  return exif.slice(0, Math.max(8, ifdEnd(tiff, ifd0, little)));
+};
+
+// PixelXDimension/PixelYDimension of the Exif sub-IFD, rewritten as LONGs so any size fits
+const setPixelSize = (tiff: DataView, little: boolean, { width, height }: { width: number; height: number }) => {
+  const pointer = findImageTag(tiff, EXIF_TAGS.ExifIFDPointer);
+  if (!pointer) return;
+  const ifd = tiff.getUint32(pointer.entry + 8, little);
+  const dimensions: [number, number][] = [
+    [EXIF_TAGS.PixelXDimension, width],
+    [EXIF_TAGS.PixelYDimension, height],
+  ];
+  for (const [tag, value] of dimensions) {
+    const entry = findIfdEntry(tiff, ifd, tag, little);
+    if (entry === null) continue;
+    tiff.setUint16(entry + 2, 4, little);
+    tiff.setUint32(entry + 4, 1, little);
+    tiff.setUint32(entry + 8, value, little);
+  }
+};
+
+/**
+ * A copy of an EXIF TIFF block, edited in place so no offsets move. For
+ * re-encoded outputs the thumbnail is dropped and the block may get shorter.
+ */
+const prepareExif = (source: Uint8Array, plan: MetadataPlan): Uint8Array => {
+  let exif = source.slice();
+  const tiff = new DataView(exif.buffer);
+  const order = exif.length >= 8 ? tiff.getUint16(0) : 0;
+  if (order !== 0x4949 && order !== 0x4d4d) return exif;
+  const little = order === 0x4949;
+
+  if (plan.mode === 'strip-gps') {
+    const pointer = findImageTag(tiff, EXIF_TAGS.GPSInfoIFDPointer);
+    const ifd = pointer && tiff.getUint32(pointer.entry + 8, pointer.little);
+    if (pointer && ifd && ifd + 2 <= tiff.byteLength) {
+      const { little } = pointer;
+      const count = tiff.getUint16(ifd, little);
+      for (let i = 0; i < count && ifd + 14 + i * 12 <= tiff.byteLength; i++) {
+        clearEntryValue(tiff, ifd + 2 + i * 12, little);
+        new Uint8Array(exif.buffer, ifd + 2 + i * 12, 12).fill(0);
+      }
+      // An empty GPS directory is still valid for readers following the pointer
+      tiff.setUint16(ifd, 0, little);
+    }
+  }
+
+  if (plan.upright) {
+    const orientation = findImageTag(tiff, EXIF_TAGS.Orientation);
+    if (orientation) tiff.setUint16(orientation.entry + 8, 1, orientation.little);
+  }
+
+  // Blank EXIF text that would contradict the fields written to XMP and IPTC
+  const replaced = [
+    plan.fields.description && EXIF_TAGS.ImageDescription,
+    plan.fields.copyright && EXIF_TAGS.Copyright,
+  ];
+  for (const tag of replaced) {
+    const found = tag ? findImageTag(tiff, tag) : null;
+    if (found) clearEntryValue(tiff, found.entry, found.little);
+  }
+
+  if (plan.upright) {
+    if (plan.size) setPixelSize(tiff, little, plan.size);
+    exif = dropThumbnail(exif, little);
+  }
+  return exif;
+};
+
+/** The smallest EXIF block: just the orientation, so stripped originals still display upright */
+const orientationExif = (orientation: number): Uint8Array =>
+  concat([ascii('MM'), uint16(42), uint32(8), uint16(1), uint16(EXIF_TAGS.Orientation), uint16(3), uint32(1), uint16(orientation), uint16(0), uint32(0)]);
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const EXIF_NS = 'http://ns.adobe.com/exif/1.0/';
+const IPTC_CORE_NS = 'http://iptc.org/std/Iptc4xmpCore/1.0/xmlns/';
+
+// Dublin Core for the classic fields; alt text is an IPTC Core property
+const XMP_PROPERTIES: Record<MetadataField, { namespace: string; name: string }> = {
+  title: { namespace: DC_NS, name: 'title' },
+  description: { namespace: DC_NS, name: 'description' },
+  copyright: { namespace: DC_NS, name: 'rights' },
+  keywords: { namespace: DC_NS, name: 'subject' },
+  altText: { namespace: IPTC_CORE_NS, name: 'AltTextAccessibility' },
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const langAlt = (property: string, value: string) =>
+  `<${property}><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt></${property}>`;
+
+// An rdf:Description holding the XMP properties for the fields
+const fieldsDescription = (fields: MetadataFields): string => {
+  const properties = [
+    fields.title && langAlt('dc:title', fields.title),
+    fields.description && langAlt('dc:description', fields.description),
+    fields.copyright && langAlt('dc:rights', fields.copyright),
+    fields.keywords.length > 0 &&
+      `<dc:subject><rdf:Bag>${fields.keywords.map((k) => `<rdf:li>${escapeXml(k)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`,
+    fields.altText && langAlt('Iptc4xmpCore:AltTextAccessibility', fields.altText),
+  ];
+  return (
+    `<rdf:Description rdf:about="" xmlns:dc="${DC_NS}" xmlns:Iptc4xmpCore="${IPTC_CORE_NS}">` +
+    `${properties.filter(Boolean).join('')}</rdf:Description>`
+  );
+};
+
+const xmpPacket = (fields: MetadataFields) =>
+  `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>` +
+  `<x:xmpmeta xmlns:x="adobe:ns:meta/"><rdf:RDF xmlns:rdf="${RDF_NS}">${fieldsDescription(fields)}</rdf:RDF></x:xmpmeta>` +
+  `<?xpacket end="w"?>`;
+
+/**
+ * Remove GPS properties and the properties being replaced from an XMP
+ * packet, then add the fields. Null when the packet is not valid XML.
+ */
+const editXmp = (xmp: string, fields: MetadataFields, stripGps: boolean): string | null => {
+  const doc = new DOMParser().parseFromString(xmp, 'application/xml');
+  const rdf = doc.getElementsByTagNameNS(RDF_NS, 'RDF')[0];
+  if (doc.getElementsByTagName('parsererror').length > 0 || !rdf) return null;
+
+  const replaced = METADATA_FIELDS.filter(({ field }) => isSet(fields, field)).map(({ field }) => XMP_PROPERTIES[field]);
+  const dropped = (namespace: string | null, name: string) =>
+    (stripGps && namespace === EXIF_NS && name.startsWith('GPS')) ||
+    replaced.some((property) => property.namespace === namespace && property.name === name);
+
+  for (const element of Array.from(doc.getElementsByTagName('*'))) {
+    if (dropped(element.namespaceURI, element.localName)) {
+      element.remove();
+      continue;
+    }
+    // Simple properties may also be written as attributes of rdf:Description
+    for (const attribute of Array.from(element.attributes)) {
+      if (dropped(attribute.namespaceURI, attribute.localName)) element.removeAttributeNode(attribute);
+    }
+  }
+
+  if (replaced.length > 0) {
+    const wrapper = new DOMParser().parseFromString(
+      `<rdf:RDF xmlns:rdf="${RDF_NS}">${fieldsDescription(fields)}</rdf:RDF>`,
+      'application/xml'
+    );
+    rdf.appendChild(doc.importNode(wrapper.documentElement.firstElementChild!, true));
+  }
+  return new XMLSerializer().serializeToString(doc);
+};
+
+// IPTC-IIM record 1 dataset 90 names the character set; record 2 holds the fields
+const IIM_CHARSET: [number, number] = [1, 90];
+// IIM has no alt text dataset; it is only written to XMP
+const IIM_FIELDS: Partial<Record<MetadataField, number>> = {
+  title: 5,
+  keywords: 25,
+  copyright: 116,
+  description: 120,
+};
+// "ESC % G": values are UTF-8
+const UTF8_CHARSET = Uint8Array.of(0x1b, 0x25, 0x47);
+const MAX_IIM_LENGTH = 0x7fff;
+
+const iimDataset = (record: number, dataset: number, value: Uint8Array) => {
+  const data = value.subarray(0, MAX_IIM_LENGTH);
+  return concat([Uint8Array.of(0x1c, record, dataset), uint16(data.length), data]);
+};
+
+interface IimDataset {
+  record: number;
+  dataset: number;
+  /** The whole dataset, tag and length included */
+  bytes: Uint8Array;
+}
+
+const readIimDatasets = (iptc: Uint8Array): IimDataset[] => {
+  const datasets: IimDataset[] = [];
+  let offset = 0;
+  while (offset + 5 <= iptc.length && iptc[offset] === 0x1c) {
+    let length = (iptc[offset + 3] << 8) | iptc[offset + 4];
+    let header = 5;
+    if (length & 0x8000) {
+      // Extended dataset: the low bits give the size of the length field
+      const size = length & 0x7fff;
+      length = 0;
+      for (let i = 0; i < size; i++) length = length * 256 + iptc[offset + 5 + i];
+      header += size;
+    }
+    const end = Math.min(offset + header + length, iptc.length);
+    datasets.push({ record: iptc[offset + 1], dataset: iptc[offset + 2], bytes: iptc.subarray(offset, end) });
+    offset = end;
+  }
+  return datasets;
+};
+
+/** IIM data with the fields replaced, keeping the source's other datasets */
+const prepareIptc = (source: Uint8Array | null, fields: MetadataFields): Uint8Array | null => {
+  const replaced = new Set(
+    METADATA_FIELDS.filter(({ field }) => IIM_FIELDS[field] && isSet(fields, field)).map(({ field }) => IIM_FIELDS[field])
+  );
+  if (!source && replaced.size === 0) return null;
+  if (replaced.size === 0) return source;
+
+  const kept = (source ? readIimDatasets(source) : []).filter(
+    ({ record, dataset }) =>
+      !(record === IIM_CHARSET[0] && dataset === IIM_CHARSET[1]) && !(record === 2 && replaced.has(dataset))
+  );
+  const encode = (text: string) => new TextEncoder().encode(text);
+  const written = [
+    fields.title && iimDataset(2, IIM_FIELDS.title, encode(fields.title)),
+    ...fields.keywords.map((keyword) => iimDataset(2, IIM_FIELDS.keywords, encode(keyword).subarray(0, 64))),
+    fields.copyright && iimDataset(2, IIM_FIELDS.copyright, encode(fields.copyright)),
+    fields.description && iimDataset(2, IIM_FIELDS.description, encode(fields.description)),
+  ].filter((dataset): dataset is Uint8Array => dataset instanceof Uint8Array);
+  // Record 1 must precede record 2
+  return concat([
+    iimDataset(IIM_CHARSET[0], IIM_CHARSET[1], UTF8_CHARSET),
+    ...kept.filter(({ record }) => record === 1).map(({ bytes }) => bytes),
+    ...kept.filter(({ record }) => record !== 1).map(({ bytes }) => bytes),
+    ...written,
+  ]);
+};
+
+/**
+ * The blocks to write for a plan. `orientation` is the source's EXIF
+ * orientation, kept for stripped originals whose pixels are not turned.
+ */
+const prepareBlocks = (
+  source: SourceMetadata,
+  plan: MetadataPlan,
+  orientation: number,
+  warnings: string[]
+): MetadataBlocks => {
+  const keep = plan.mode !== 'strip';
+  const exif = keep && source.exif
+    ? prepareExif(source.exif, plan)
+    : !plan.upright && orientation !== 1
+      ? orientationExif(orientation)
+      : null;
+
+  let xmp = keep ? source.xmp : null;
+  if (xmp && (plan.mode === 'strip-gps' || hasFields(plan.fields))) {
+    const edited = editXmp(xmp, plan.fields, plan.mode === 'strip-gps');
+    if (edited === null) warnings.push('The original XMP could not be read and was left out');
+    xmp = edited;
+  }
+  if (!xmp && hasFields(plan.fields)) xmp = xmpPacket(plan.fields);
+
+  const iptc = prepareIptc(keep ? source.iptc : null, plan.fields);
+  return { exif, iptc, xmp };
+};
+
+// --- Writing ---------------------------------------------------------------
+
+const MAX_SEGMENT_DATA = 0xffff - 2;
+
+const jpegSegment = (marker: number, ...parts: Uint8Array[]) => {
+  const data = concat(parts);
+  return concat([Uint8Array.of(0xff, marker), uint16(data.length + 2), data]);
+};
+
+const photoshopIptc = (iptc: Uint8Array) =>
+  concat([
+    ascii(PHOTOSHOP_ID),
+    ascii('8BIM'),
+    uint16(IPTC_RESOURCE),
+    Uint8Array.of(0, 0), // empty name, padded to even length
+    uint32(iptc.length),
+    iptc,
+    new Uint8Array(iptc.length % 2),
+  ]);
+
+// Other Photoshop resources (paths, thumbnails) in a replaced APP13 are dropped
+const writeJpeg = (bytes: Uint8Array, blocks: MetadataBlocks, warnings: string[]): Uint8Array => {
+  const { segments, scan } = jpegSegments(bytes);
+  const isMetadata = ({ marker, start }: Segment) => {
+    const body = start + 4;
+    return (
+      (marker === 0xe1 &&
+        (latin1(bytes, body, 6) === 'Exif\0\0' || latin1(bytes, body, XMP_JPEG_ID.length) === XMP_JPEG_ID)) ||
+      (marker === 0xed && latin1(bytes, body, PHOTOSHOP_ID.length) === PHOTOSHOP_ID)
+    );
+  };
+
+  const inserted: Uint8Array[] = [];
+  if (blocks.exif) {
+    if (blocks.exif.length + 6 <= MAX_SEGMENT_DATA) inserted.push(jpegSegment(0xe1, ascii('Exif\0\0'), blocks.exif));
+    else warnings.push('EXIF data is too large for a JPEG segment and was left out');
+  }
+  if (blocks.xmp) {
+    const xmp = new TextEncoder().encode(blocks.xmp);
+    if (xmp.length + XMP_JPEG_ID.length <= MAX_SEGMENT_DATA) inserted.push(jpegSegment(0xe1, ascii(XMP_JPEG_ID), xmp));
+    else warnings.push('XMP data is too large for a JPEG segment and was left out');
+  }
+  if (blocks.iptc) {
+    const app13 = photoshopIptc(blocks.iptc);
+    if (app13.length <= MAX_SEGMENT_DATA) inserted.push(jpegSegment(0xed, app13));
+    else warnings.push('IPTC data is too large for a JPEG segment and was left out');
+  }
+
+  // New segments go after a leading JFIF APP0, where readers expect them
+  const leading = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+  const parts: Uint8Array[] = [bytes.subarray(0, leading), ...inserted];
+  for (const segment of segments) {
+    if (segment.start >= leading && !isMetadata(segment)) parts.push(bytes.subarray(segment.start, segment.end));
+  }
+  parts.push(bytes.subarray(Math.max(scan, leading)));
+  return concat(parts);
+};
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (type: string, data: Uint8Array) => {
+  const body = concat([ascii(type), data]);
+  return concat([uint32(data.length), body, uint32(crc32(body))]);
+};
+
+// PNG and WebP have no IPTC-IIM block; the same fields are in the XMP.
+// ImageMagick's hex-encoded "Raw profile type" text chunks are not read, so
+// they are kept as they are unless metadata is being stripped, as they may
+// hold GPS tags we cannot remove from them
+const writePng = (bytes: Uint8Array, blocks: MetadataBlocks, stripRawProfiles: boolean): Uint8Array => {
+  const chunks = pngChunks(bytes);
+  const isMetadata = (chunk: Chunk) => {
+    if (chunk.type === 'eXIf') return true;
+    if (!['iTXt', 'tEXt', 'zTXt'].includes(chunk.type)) return false;
+    const keyword = pngKeyword(bytes, chunk);
+    return keyword === XMP_PNG_KEYWORD || (stripRawProfiles && keyword.startsWith('Raw profile type'));
+  };
+
+  const inserted: Uint8Array[] = [];
+  if (blocks.exif) inserted.push(pngChunk('eXIf', blocks.exif));
+  if (blocks.xmp) {
+    // Uncompressed, no language or translated keyword
+    inserted.push(pngChunk('iTXt', concat([ascii(XMP_PNG_KEYWORD), new Uint8Array(5), new TextEncoder().encode(blocks.xmp)])));
+  }
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  for (const chunk of chunks) {
+    // Both must come before the image data
+    if (chunk.type === 'IDAT' && inserted.length) parts.push(...inserted.splice(0));
+    if (!isMetadata(chunk)) parts.push(bytes.subarray(chunk.start, chunk.end));
+  }
+  return concat(parts);
+};
+
+const VP8X_ALPHA = 0x10;
+const VP8X_EXIF = 0x08;
+const VP8X_XMP = 0x04;
+
+const webpChunk = (type: string, data: Uint8Array) =>
+  concat([ascii(type), uint32(data.length, true), data, new Uint8Array(data.length % 2)]);
+
+// Canvas size and alpha of a simple (VP8/VP8L) WebP, needed to build a VP8X header
+const simpleWebpInfo = (bytes: Uint8Array, chunk: Chunk): { width: number; height: number; alpha: boolean } | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset + chunk.data, chunk.length);
+  if (chunk.type === 'VP8 ' && chunk.length >= 10) {
+    return { width: view.getUint16(6, true) & 0x3fff, height: view.getUint16(8, true) & 0x3fff, alpha: false };
+  }
+  if (chunk.type === 'VP8L' && chunk.length >= 5) {
+    const bits = view.getUint32(1, true);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1, alpha: !!((bits >> 28) & 1) };
+  }
+  return null;
+};
+
+const uint24 = (value: number) => Uint8Array.of(value & 0xff, (value >> 8) & 0xff, (value >> 16) & 0xff);
+
+const writeWebp = (bytes: Uint8Array, blocks: MetadataBlocks): Uint8Array | null => {
+  const chunks = webpChunks(bytes).filter((chunk) => chunk.type !== 'EXIF' && chunk.type !== 'XMP ');
+  const xmp = blocks.xmp ? new TextEncoder().encode(blocks.xmp) : null;
+  const flags = (blocks.exif ? VP8X_EXIF : 0) | (xmp ? VP8X_XMP : 0);
+
+  let header: Uint8Array | null = null;
+  const vp8x = chunks.find((chunk) => chunk.type === 'VP8X');
+  if (vp8x) {
+    const data = bytes.slice(vp8x.data, vp8x.data + vp8x.length);
+    data[0] = (data[0] & ~(VP8X_EXIF | VP8X_XMP)) | flags;
+    header = webpChunk('VP8X', data);
+  } else if (flags) {
+    const image = chunks.find((chunk) => chunk.type === 'VP8 ' || chunk.type === 'VP8L');
+    const info = image && simpleWebpInfo(bytes, image);
+    if (!info) return null;
+    const alpha = info.alpha || chunks.some((chunk) => chunk.type === 'ALPH');
+    header = webpChunk(
+      'VP8X',
+      concat([Uint8Array.of(flags | (alpha ? VP8X_ALPHA : 0), 0, 0, 0), uint24(info.width - 1), uint24(info.height - 1)])
+    );
+  }
+
+  const body = concat([
+    ascii('WEBP'),
+    ...(header ? [header] : []),
+    ...chunks.filter((chunk) => chunk.type !== 'VP8X').map((chunk) => bytes.subarray(chunk.start, chunk.end)),
+    ...(blocks.exif ? [webpChunk('EXIF', blocks.exif)] : []),
+    ...(xmp ? [webpChunk('XMP ', xmp)] : []),
+  ]);
+  return concat([ascii('RIFF'), uint32(body.length, true), body]);
+};
+
+/**
+ * Write the planned metadata into `output`, taking what is kept from
+ * `source`. The container is recognised from its bytes; other types are
+ * returned unchanged, with a warning when there was metadata to write.
+ */
+export async function transferMetadata(
+  source: Blob,
+  output: Blob,
+  plan: MetadataPlan
+): Promise<{ blob: Blob; warnings: string[] }> {
+  const warnings: string[] = [];
+  const sourceBytes = new Uint8Array(await source.arrayBuffer());
+  const outputBytes = source === output ? sourceBytes : new Uint8Array(await output.arrayBuffer());
+  const metadata = readMetadata(sourceBytes);
+  const orientationTag = metadata.exif && findImageTag(new DataView(metadata.exif.buffer), EXIF_TAGS.Orientation);
+  const orientation = orientationTag
+    ? new DataView(metadata.exif!.buffer).getUint16(orientationTag.entry + 8, orientationTag.little)
+    : 1;
+  const blocks = prepareBlocks(metadata, plan, orientation, warnings);
+
+  const written = isJpeg(outputBytes)
+    ? writeJpeg(outputBytes, blocks, warnings)
+    : isPng(outputBytes)
+      ? writePng(outputBytes, blocks, plan.mode !== 'keep')
+      : isWebp(outputBytes)
+        ? writeWebp(outputBytes, blocks)
+        : null;
+  if (!written) {
+    const empty = !blocks.exif && !blocks.iptc && !blocks.xmp;
+    const type = output.type.replace('image/', '').toUpperCase() || 'these';
+    return { blob: output, warnings: empty ? warnings : [...warnings, `Metadata cannot be written to ${type} files`] };
+  }
+  return { blob: new Blob([written], { type: output.type }), warnings };
+}
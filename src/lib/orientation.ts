@@ -0,0 +1,85 @@
+import { exifItemTiff, EXIF_TAGS, findHeicExif, findImageTag, findJpegExif, hasHeicTransform } from '@/lib/exif';
+
+// EXIF orientation. Whether drawing an image onto a canvas honours the tag
+// differs between browsers and versions, and re-encoding drops the tag, so
+// outputs could end up sideways. The pipeline therefore decodes files with
+// the tag reset to 1 and rotates or flips the pixels itself.
+
+/** EXIF orientations 5-8 turn the image a quarter, swapping width and height */
+export const swapsAxes = (orientation: number) => orientation >= 5 && orientation <= 8;
+
+interface OrientationTag {
+  orientation: number;
+  /** Offset of the tag's value in the file */
+  offset: number;
+  little: boolean;
+}
+
+const tagIn = (tiff: DataView | null, fileOffset: number): OrientationTag | null => {
+  const found = tiff && findImageTag(tiff, EXIF_TAGS.Orientation);
+  if (!found) return null;
+  const orientation = tiff.getUint16(found.entry + 8, found.little);
+  return { orientation, offset: fileOffset + found.entry + 8, little: found.little };
+};
+
+const findOrientationTag = (bytes: Uint8Array): OrientationTag | null => {
+  const jpeg = findJpegExif(bytes);
+  if (jpeg) return tagIn(jpeg, jpeg.byteOffset - bytes.byteOffset);
+
+  const location = findHeicExif(bytes);
+  if (!location || location.offset + location.length > bytes.length) return null;
+  const tiff = exifItemTiff(bytes.subarray(location.offset, location.offset + location.length));
+  return tiff && tagIn(tiff, tiff.byteOffset - bytes.byteOffset);
+};
+
+/**
+ * Prepare file bytes for decoding: a copy with the Orientation tag reset to
+ * 1, so every browser decodes the stored pixels as they are, and the
+ * orientation still to be applied. A HEIC with `irot`/`imir` properties is
+ * turned by the decoder itself, so nothing is left to apply for it.
+ */
+export function neutralizeOrientation(bytes: Uint8Array): { bytes: Uint8Array; orientation: number } {
+  const tag = findOrientationTag(bytes);
+  if (!tag || tag.orientation === 1) return { bytes, orientation: 1 };
+
+  const copy = bytes.slice();
+  new DataView(copy.buffer).setUint16(tag.offset, 1, tag.little);
+  const valid = tag.orientation >= 1 && tag.orientation <= 8;
+  return { bytes: copy, orientation: valid && !hasHeicTransform(bytes) ? tag.orientation : 1 };
+}
+
+/** Draw a decoded image onto a new canvas the right way up */
+export function orientImage(image: HTMLImageElement, orientation: number): HTMLCanvasElement {
+  const width = image.naturalWidth;
+  const height = image.naturalHeight;
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsAxes(orientation) ? height : width;
+  canvas.height = swapsAxes(orientation) ? width : height;
+  const ctx = canvas.getContext('2d')!;
+
+  switch (orientation) {
+    case 2: // flip horizontally
+      ctx.transform(-1, 0, 0, 1, width, 0);
+      break;
+    case 3: // rotate 180°
+      ctx.transform(-1, 0, 0, -1, width, height);
+      break;
+    case 4: // flip vertically
+      ctx.transform(1, 0, 0, -1, 0, height);
+      break;
+    case 5: // transpose
+      ctx.transform(0, 1, 1, 0, 0, 0);
+      break;
+    case 6: // rotate 90° clockwise
+      ctx.transform(0, 1, -1, 0, height, 0);
+      break;
+    case 7: // transverse
+      ctx.transform(0, -1, -1, 0, height, width);
+      break;
+    case 8: // rotate 90° counter-clockwise
+      ctx.transform(0, -1, 1, 0, 0, width);
+      break;
+  }
+  ctx.drawImage(image, 0, 0);
+  return canvas;
+}
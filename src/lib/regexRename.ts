@@ -0,0 +1,60 @@
+import { splitExtension } from '@/lib/filenames';
+
+// Find-and-replace renaming: a regular expression with capture groups and a
+// replacement using $1, $<name> and $& as in String.prototype.replace.
+
+export interface RegexRule {
+  pattern: string;
+  replacement: string;
+  caseInsensitive: boolean;
+  /** Match against the full file name instead of the name without extension */
+  includeExtension: boolean;
+}
+
+export interface RegexPreset extends RegexRule {
+  name: string;
+}
+
+export const DEFAULT_REGEX_RULE: RegexRule = {
+  pattern: '^IMG_(\\d+)$',
+  replacement: 'product-$1',
+  caseInsensitive: false,
+  includeExtension: false,
+};
+
+/** Compile a rule's pattern; throws with the engine's message when invalid */
+export const compileRule = (rule: RegexRule): RegExp =>
+  new RegExp(rule.pattern, rule.caseInsensitive ? 'i' : '');
+
+/**
+ * The new name for a file, or null when the pattern does not match it.
+ * Without `includeExtension` the original extension is kept.
+ */
+export function applyRule(regex: RegExp, rule: RegexRule, fileName: string): string | null {
+  if (rule.includeExtension) {
+    return regex.test(fileName) ? fileName.replace(regex, rule.replacement) : null;
+  }
+  const [base, ext] = splitExtension(fileName);
+  if (!regex.test(base)) return null;
+  const renamed = base.replace(regex, rule.replacement);
+  return ext ? `${renamed}.${ext}` : renamed;
+}
+
+const REGEX_PRESETS_KEY = 'image-renamer.regex-presets';
+
+export function loadRegexPresets(): RegexPreset[] {
+  try {
+    const presets = JSON.parse(localStorage.getItem(REGEX_PRESETS_KEY) ?? '[]');
+    return Array.isArray(presets) ? presets : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRegexPresets(presets: RegexPreset[]) {
+  try {
+    localStorage.setItem(REGEX_PRESETS_KEY, JSON.stringify(presets));
+  } catch {
+    // Storage may be full or disabled; presets are best-effort
+  }
+}
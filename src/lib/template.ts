@@ -0,0 +1,207 @@
+import { EXIF_TAGS, parseExifDate, readExif } from '@/lib/exif';
+import { splitExtension } from '@/lib/filenames';
+
+// Name templates such as "{sku}_{index:03}_{width}x{height}.{ext}". A token
+// is `{name}` or `{name:format}`; `{{` and `}}` produce literal braces.
+
+export const TEMPLATE_TOKENS: { token: string; description: string }[] = [
+  { token: 'name', description: 'Original name without extension' },
+  { token: 'ext', description: 'Original extension' },
+  { token: 'original', description: 'Original file name' },
+  { token: 'sku', description: 'Original name up to the first _, - or space' },
+  { token: 'part2', description: 'Second _/-/space separated part (part1, part3...)' },
+  { token: 'index', description: 'Counter; {index:03} pads to 3 digits' },
+  { token: 'width', description: 'Image width in pixels' },
+  { token: 'height', description: 'Image height in pixels' },
+  { token: 'date', description: 'File date; {date:YYYYMMDD} for another format' },
+  { token: 'taken', description: 'EXIF capture date, falling back to the file date' },
+];
+
+type TemplatePart = string | { token: string; format?: string };
+
+export interface ParsedTemplate {
+  parts: TemplatePart[];
+  /** Whether rendering needs decoded image dimensions */
+  needsDimensions: boolean;
+  /** Whether rendering needs the EXIF capture date */
+  needsExif: boolean;
+}
+
+export interface TemplateContext {
+  fileName: string;
+  index: number;
+  lastModified: Date;
+  width?: number;
+  height?: number;
+  captureDate?: Date | null;
+}
+
+const SIMPLE_TOKENS = new Set(['name', 'ext', 'original', 'sku', 'index', 'width', 'height', 'date', 'taken']);
+
+const isKnownToken = (token: string) => SIMPLE_TOKENS.has(token) || /^part[1-9]\d*$/.test(token);
+
+export function parseTemplate(template: string): ParsedTemplate {
+  const parts: TemplatePart[] = [];
+  let literal = '';
+  let i = 0;
+
+  while (i < template.length) {
+    const ch = template[i];
+    if ((ch === '{' || ch === '}') && template[i + 1] === ch) {
+      literal += ch;
+      i += 2;
+      continue;
+    }
+    if (ch === '}') {
+      throw new Error(`Unmatched "}" at position ${i + 1}; write "}}" for a literal brace`);
+    }
+    if (ch !== '{') {
+      literal += ch;
+      i++;
+      continue;
+    }
+
+    const end = template.indexOf('}', i);
+    if (end === -1) {
+      throw new Error(`Unclosed "{" at position ${i + 1}`);
+    }
+    const [token, format] = template.slice(i + 1, end).trim().split(/:(.*)/s);
+    if (!isKnownToken(token)) {
+      throw new Error(`Unknown token {${token}} at position ${i + 1}`);
+    }
+    if (literal) parts.push(literal);
+    literal = '';
+    parts.push(format ? { token, format } : { token });
+    i = end + 1;
+  }
+  if (literal) parts.push(literal);
+
+  const tokens = parts.filter((part): part is { token: string } => typeof part !== 'string').map((p) => p.token);
+  return {
+    parts,
+    needsDimensions: tokens.includes('width') || tokens.includes('height'),
+    needsExif: tokens.includes('taken'),
+  };
+}
+
+const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+
+export function formatDate(date: Date, pattern = 'YYYY-MM-DD'): string {
+  return pattern.replace(/YYYY|YY|MM|DD|HH|mm|ss/g, (part) => {
+    switch (part) {
+      case 'YYYY':
+        return String(date.getFullYear());
+      case 'YY':
+        return pad(date.getFullYear() % 100);
+      case 'MM':
+        return pad(date.getMonth() + 1);
+      case 'DD':
+        return pad(date.getDate());
+      case 'HH':
+        return pad(date.getHours());
+      case 'mm':
+        return pad(date.getMinutes());
+      default:
+        return pad(date.getSeconds());
+    }
+  });
+}
+
+const formatNumber = (value: number | undefined, format?: string): string => {
+  if (value === undefined) return '';
+  const width = format?.match(/^0(\d+)$/)?.[1];
+  return width ? pad(value, Number(width)) : String(value);
+};
+
+const formatText = (value: string, format?: string): string => {
+  switch (format) {
+    case 'upper':
+      return value.toUpperCase();
+    case 'lower':
+      return value.toLowerCase();
+    default:
+      return value;
+  }
+};
+
+export function renderTemplate(template: ParsedTemplate, context: TemplateContext): string {
+  const [base, ext] = splitExtension(context.fileName);
+  const nameParts = base.split(/[_\-\s]+/).filter(Boolean);
+
+  return template.parts
+    .map((part) => {
+      if (typeof part === 'string') return part;
+      const { token, format } = part;
+      switch (token) {
+        case 'name':
+          return formatText(base, format);
+        case 'ext':
+          return formatText(ext, format);
+        case 'original':
+          return formatText(context.fileName, format);
+        case 'sku':
+          return formatText(nameParts[0] ?? base, format);
+        case 'index':
+          return formatNumber(context.index, format);
+        case 'width':
+          return formatNumber(context.width, format);
+        case 'height':
+          return formatNumber(context.height, format);
+        case 'date':
+          return formatDate(context.lastModified, format);
+        case 'taken':
+          return formatDate(context.captureDate ?? context.lastModified, format);
+        default: {
+          // partN
+          const n = Number(token.slice(4));
+          return formatText(nameParts[n - 1] ?? '', format);
+        }
+      }
+    })
+    .join('');
+}
+
+export interface CounterOptions {
+  start: number;
+  step: number;
+}
+
+/**
+ * Gather what the template needs from each file. Dimensions and EXIF are
+ * only read when the template uses them, since both touch the file data.
+ * Files are read one at a time so a large batch is never decoded at once.
+ */
+export async function collectTemplateContexts(
+  files: File[],
+  template: ParsedTemplate,
+  { start, step }: CounterOptions
+): Promise<TemplateContext[]> {
+  const contexts: TemplateContext[] = [];
+  for (const [position, file] of files.entries()) {
+    const context: TemplateContext = {
+      fileName: file.name,
+      index: start + position * step,
+      lastModified: new Date(file.lastModified),
+    };
+
+    if (template.needsDimensions) {
+      try {
+        const bitmap = await createImageBitmap(file);
+        context.width = bitmap.width;
+        context.height = bitmap.height;
+        // Free the decoded pixels before the next file is decoded
+        bitmap.close();
+      } catch {
+        // Undecodable images render empty dimensions
+      }
+    }
+
+    if (template.needsExif) {
+      const tags = await readExif(file).catch(() => null);
+      context.captureDate = parseExifDate(tags?.exif.get(EXIF_TAGS.DateTimeOriginal));
+    }
+
+    contexts.push(context);
+  }
+  return contexts;
+}
@@ -0,0 +1,112 @@
+import { anchorBox, type Anchor } from '@/lib/geometry';
+
+// Watermark stage of the canvas pipeline. Sizes and offsets are relative to
+// the image's shorter side so one setting suits a whole mixed batch.
+
+export interface WatermarkOptions {
+  enabled: boolean;
+  kind: 'text' | 'logo';
+  text: string;
+  color: string;
+  /** Object URL of the uploaded logo */
+  logo: string | null;
+  position: Anchor;
+  /** Distance from the anchored edges, in % of the shorter side */
+  offsetX: number;
+  offsetY: number;
+  /** 0 to 1 */
+  opacity: number;
+  /** Text height or logo width, in % of the shorter side */
+  size: number;
+  /** Repeat the watermark across the whole image instead of placing it once */
+  tile: boolean;
+}
+
+export const DEFAULT_WATERMARK_OPTIONS: WatermarkOptions = {
+  enabled: false,
+  kind: 'text',
+  text: '© Your Brand',
+  color: '#ffffff',
+  logo: null,
+  position: 'bottom-right',
+  offsetX: 3,
+  offsetY: 3,
+  opacity: 0.6,
+  size: 6,
+  tile: false,
+};
+
+interface Mark {
+  width: number;
+  height: number;
+  draw: (ctx: CanvasRenderingContext2D, x: number, y: number) => void;
+}
+
+const measureMark = (
+  ctx: CanvasRenderingContext2D,
+  options: WatermarkOptions,
+  shorter: number,
+  logo: HTMLImageElement | null
+): Mark | null => {
+  const size = (options.size / 100) * shorter;
+
+  if (options.kind === 'logo') {
+    if (!logo || !logo.naturalWidth) return null;
+    const width = size;
+    const height = (logo.naturalHeight / logo.naturalWidth) * width;
+    return { width, height, draw: (c, x, y) => c.drawImage(logo, x, y, width, height) };
+  }
+
+  if (!options.text.trim()) return null;
+  ctx.font = `bold ${Math.max(1, Math.round(size))}px sans-serif`;
+  const width = ctx.measureText(options.text).width;
+  return {
+    width,
+    height: size,
+    draw: (c, x, y) => {
+      c.fillStyle = options.color;
+      c.textBaseline = 'top';
+      // A soft shadow keeps light text readable on light backgrounds
+      c.shadowColor = 'rgba(0, 0, 0, 0.35)';
+      c.shadowBlur = size / 8;
+      c.fillText(options.text, x, y);
+    },
+  };
+};
+
+/** Draw the watermark onto a canvas of the given size */
+export function drawWatermark(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  options: WatermarkOptions,
+  logo: HTMLImageElement | null = null
+) {
+  const shorter = Math.min(width, height);
+  ctx.save();
+  const mark = measureMark(ctx, options, shorter, logo);
+  if (!mark) {
+    ctx.restore();
+    return;
+  }
+  ctx.globalAlpha = Math.min(1, Math.max(0, options.opacity));
+
+  if (options.tile) {
+    // Staggered grid, two mark heights apart
+    const stepX = mark.width + mark.height * 2;
+    const stepY = mark.height * 3;
+    for (let row = 0, y = -mark.height; y < height; row++, y += stepY) {
+      for (let x = row % 2 ? -stepX / 2 : 0; x < width; x += stepX) {
+        mark.draw(ctx, x, y);
+      }
+    }
+    ctx.restore();
+    return;
+  }
+
+  const offsetX = (options.offsetX / 100) * shorter;
+  const offsetY = (options.offsetY / 100) * shorter;
+  const { x, y } = anchorBox(options.position, width, height, mark.width, mark.height, offsetX, offsetY);
+  mark.draw(ctx, x, y);
+  ctx.restore();
+}
@@ -0,0 +1,300 @@
+import JSZip from 'jszip';
+
+// Minimal spreadsheet reader for .xlsx (Office Open XML) and .ods
+// (OpenDocument). Both are ZIP containers of XML parts, so JSZip and the
+// browser's DOMParser are all that is needed. Every cell is returned as the
+// string the user sees in the spreadsheet, so numeric SKUs keep the leading
+// zeros their number format adds.
+
+export interface WorkbookSheet {
+  name: string;
+  /** Rows as displayed strings; row i is spreadsheet row i + 1 */
+  rows: string[][];
+}
+
+export interface Workbook {
+  sheets: WorkbookSheet[];
+}
+
+export const WORKBOOK_EXTENSIONS = ['.xlsx', '.ods'];
+
+const ODS_TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const ODS_TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+const OFFICE_REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+// Excel's built-in number formats that matter for display
+const BUILTIN_NUMBER_FORMATS: Record<number, string> = {
+  1: '0',
+  2: '0.00',
+  3: '#,##0',
+  4: '#,##0.00',
+  9: '0%',
+  10: '0.00%',
+  14: 'yyyy-mm-dd',
+  15: 'yyyy-mm-dd',
+  16: 'yyyy-mm-dd',
+  17: 'yyyy-mm-dd',
+  18: 'hh:mm',
+  19: 'hh:mm:ss',
+  20: 'hh:mm',
+  21: 'hh:mm:ss',
+  22: 'yyyy-mm-dd hh:mm',
+  45: 'mm:ss',
+  46: 'hh:mm:ss',
+  47: 'mm:ss',
+  49: '@',
+};
+
+export function isWorkbookFile(file: File): boolean {
+  const name = file.name.toLowerCase();
+  return WORKBOOK_EXTENSIONS.some((ext) => name.endsWith(ext));
+}
+
+export async function readWorkbook(file: Blob & { name?: string }): Promise<Workbook> {
+  const zip = await JSZip.loadAsync(file);
+
+  if (zip.file('content.xml') && zip.file('mimetype')) {
+    return readOds(zip);
+  }
+  if (zip.file('xl/workbook.xml')) {
+    return readXlsx(zip);
+  }
+  throw new Error('Unsupported workbook: expected an .xlsx or .ods file');
+}
+
+const parseXml = async (zip: JSZip, path: string): Promise<Document | null> => {
+  const entry = zip.file(path);
+  if (!entry) return null;
+  const doc = new DOMParser().parseFromString(await entry.async('string'), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`Workbook part ${path} is not valid XML`);
+  }
+  return doc;
+};
+
+const elements = (parent: Document | Element, localName: string): Element[] =>
+  Array.from(parent.getElementsByTagNameNS('*', localName));
+
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter((child) => child.localName === localName);
+
+// --- xlsx ---------------------------------------------------------------
+
+async function readXlsx(zip: JSZip): Promise<Workbook> {
+  const workbookXml = await parseXml(zip, 'xl/workbook.xml');
+  const relsXml = await parseXml(zip, 'xl/_rels/workbook.xml.rels');
+  const sharedStrings = await readSharedStrings(zip);
+  const numberFormats = await readCellFormats(zip);
+
+  const targets = new Map<string, string>();
+  for (const rel of relsXml ? elements(relsXml, 'Relationship') : []) {
+    const target = rel.getAttribute('Target') ?? '';
+    targets.set(
+      rel.getAttribute('Id') ?? '',
+      target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    );
+  }
+
+  const sheets: WorkbookSheet[] = [];
+  for (const sheet of elements(workbookXml!, 'sheet')) {
+    const name = sheet.getAttribute('name') ?? `Sheet${sheets.length + 1}`;
+    const relId = sheet.getAttributeNS(OFFICE_REL_NS, 'id') ?? sheet.getAttribute('r:id');
+    const path = relId ? targets.get(relId) : undefined;
+    const sheetXml = path ? await parseXml(zip, path) : null;
+    if (!sheetXml) continue;
+    sheets.push({ name, rows: readXlsxRows(sheetXml, sharedStrings, numberFormats) });
+  }
+
+  return { sheets };
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const doc = await parseXml(zip, 'xl/sharedStrings.xml');
+  if (!doc) return [];
+  // Rich text runs are split across several <t> elements inside one <si>
+  return elements(doc, 'si').map((si) =>
+    elements(si, 't')
+      .filter((t) => t.parentElement?.localName !== 'rPh')
+      .map((t) => t.textContent ?? '')
+      .join('')
+  );
+}
+
+/** Number format code for every cell style index (`s` attribute) */
+async function readCellFormats(zip: JSZip): Promise<string[]> {
+  const doc = await parseXml(zip, 'xl/styles.xml');
+  if (!doc) return [];
+
+  const custom = new Map<number, string>();
+  for (const fmt of elements(doc, 'numFmt')) {
+    custom.set(Number(fmt.getAttribute('numFmtId')), fmt.getAttribute('formatCode') ?? '');
+  }
+
+  const cellXfs = elements(doc, 'cellXfs')[0];
+  if (!cellXfs) return [];
+  return childElements(cellXfs, 'xf').map((xf) => {
+    const id = Number(xf.getAttribute('numFmtId') ?? 0);
+    return custom.get(id) ?? BUILTIN_NUMBER_FORMATS[id] ?? '';
+  });
+}
+
+const columnIndex = (ref: string): number => {
+  const letters = ref.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+function readXlsxRows(doc: Document, sharedStrings: string[], numberFormats: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const row of elements(doc, 'row')) {
+    const rowIndex = Number(row.getAttribute('r') ?? rows.length + 1) - 1;
+    const cells: string[] = [];
+
+    for (const cell of childElements(row, 'c')) {
+      const ref = cell.getAttribute('r');
+      const col = ref ? columnIndex(ref) : cells.length;
+      const type = cell.getAttribute('t') ?? 'n';
+      const raw = childElements(cell, 'v')[0]?.textContent ?? '';
+      let value: string;
+
+      switch (type) {
+        case 's':
+          value = sharedStrings[Number(raw)] ?? '';
+          break;
+        case 'inlineStr':
+          value = elements(cell, 't').map((t) => t.textContent ?? '').join('');
+          break;
+        case 'b':
+          value = raw === '1' ? 'TRUE' : 'FALSE';
+          break;
+        case 'str':
+        case 'e':
+          value = raw;
+          break;
+        default: {
+          const format = numberFormats[Number(cell.getAttribute('s') ?? 0)] ?? '';
+          value = raw === '' ? '' : formatNumber(Number(raw), format);
+        }
+      }
+
+      while (cells.length < col) cells.push('');
+      cells[col] = value;
+    }
+
+    while (rows.length < rowIndex) rows.push([]);
+    rows[rowIndex] = cells;
+  }
+
+  return trimRows(rows);
+}
+
+/**
+ * Render a numeric cell the way its number format displays it. Only the
+ * formats that matter for file names are understood: zero padding, fixed
+ * decimals, percentages and dates; anything else falls back to "General".
+ */
+export function formatNumber(value: number, formatCode: string): string {
+  if (!Number.isFinite(value)) return '';
+
+  const section = formatCode
+    .split(';')[0]
+    .replace(/"[^"]*"/g, '')
+    .replace(/\[[^\]]*\]/g, '')
+    .replace(/\\./g, '')
+    .trim();
+
+  if (!section || section.toLowerCase() === 'general' || section === '@') {
+    return formatGeneral(value);
+  }
+
+  if (/[ymdhs]/i.test(section) && !/[0#]/.test(section)) {
+    return formatDate(value, section);
+  }
+
+  const percent = section.endsWith('%');
+  const numeric = section.replace(/%$/, '').replace(/,/g, '');
+  const match = numeric.match(/^[#0]*?(0*)(?:\.(0+))?$/);
+  if (!match) return formatGeneral(value);
+
+  const scaled = percent ? value * 100 : value;
+  const decimals = match[2]?.length ?? 0;
+  const [intPart, fracPart] = Math.abs(scaled).toFixed(decimals).split('.');
+  const padded = intPart.padStart(match[1].length, '0');
+  return `${scaled < 0 ? '-' : ''}${padded}${fracPart ? `.${fracPart}` : ''}${percent ? '%' : ''}`;
+}
+
+const formatGeneral = (value: number): string =>
+  // Strip binary floating point noise (0.30000000000000004 -> 0.3)
+  String(Number(value.toPrecision(15)));
+
+const formatDate = (serial: number, section: string): string => {
+  // Excel serial dates count days from 1899-12-30 (1900 leap year bug included)
+  const date = new Date(Math.round((serial - 25569) * 86400) * 1000);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const day = `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+  const time = `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+  const hasDate = /[yd]/i.test(section) || (/m/i.test(section) && !/[hs]/i.test(section));
+  const hasTime = /[hs]/i.test(section);
+  return [hasDate ? day : '', hasTime ? time : ''].filter(Boolean).join(' ');
+};
+
+// --- ods ----------------------------------------------------------------
+
+async function readOds(zip: JSZip): Promise<Workbook> {
+  const doc = await parseXml(zip, 'content.xml');
+  const sheets = elements(doc!, 'table')
+    .filter((table) => table.namespaceURI === ODS_TABLE_NS)
+    .map((table, index) => ({
+      name: table.getAttributeNS(ODS_TABLE_NS, 'name') ?? `Sheet${index + 1}`,
+      rows: readOdsRows(table),
+    }));
+  return { sheets };
+}
+
+function readOdsRows(table: Element): string[][] {
+  const rows: string[][] = [];
+  // Empty rows/cells are often repeated up to the sheet limit (1M rows), so
+  // repetitions are only materialised once something non-empty follows them.
+  let pendingEmptyRows = 0;
+
+  const rowElements = elements(table, 'table-row').filter((row) => row.namespaceURI === ODS_TABLE_NS);
+  for (const row of rowElements) {
+    const repeatRows = Number(row.getAttributeNS(ODS_TABLE_NS, 'number-rows-repeated') ?? 1);
+    const cells: string[] = [];
+    let pendingEmptyCells = 0;
+
+    for (const cell of Array.from(row.children)) {
+      if (cell.localName !== 'table-cell' && cell.localName !== 'covered-table-cell') continue;
+      const repeatCells = Number(cell.getAttributeNS(ODS_TABLE_NS, 'number-columns-repeated') ?? 1);
+      const value = Array.from(cell.getElementsByTagNameNS(ODS_TEXT_NS, 'p'))
+        .map((p) => p.textContent ?? '')
+        .join('\n');
+
+      if (value === '') {
+        pendingEmptyCells += repeatCells;
+        continue;
+      }
+      for (; pendingEmptyCells > 0; pendingEmptyCells--) cells.push('');
+      for (let i = 0; i < repeatCells; i++) cells.push(value);
+    }
+
+    if (cells.length === 0) {
+      pendingEmptyRows += repeatRows;
+      continue;
+    }
+    for (; pendingEmptyRows > 0; pendingEmptyRows--) rows.push([]);
+    for (let i = 0; i < repeatRows; i++) rows.push([...cells]);
+  }
+
+  return rows;
+}
+
+const trimRows = (rows: string[][]): string[][] => {
+  let end = rows.length;
+  while (end > 0 && rows[end - 1].every((cell) => cell === '')) end--;
+  return rows.slice(0, end).map((row) => row ?? []);
+};
@@ -2,19 +2,19 @@ import React, { useState } from 'react';
 import { ImageUpload } from '@/components/ImageUpload';
 import { CSVUpload } from '@/components/CSVUpload';
 import { ImageProcessor } from '@/components/ImageProcessor';
+import { TemplateRename } from '@/components/TemplateRename';
+import { RegexRename } from '@/components/RegexRename';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { RefreshCw, FileImage } from 'lucide-react';
+import type { CSVMapping } from '@/lib/mapping';
 
 interface ImageFile {
   file: File;
   preview: string;
   id: string;
-}
-
-interface CSVMapping {
-  currentName: string;
-  newName: string;
+  relativePath: string;
 }
 
 const Index = () => {
@@ -52,16 +52,38 @@ const Index = () => {
             <ImageUpload images={images} onImagesChange={setImages} />
           </Card>
 
-          {/* CSV Upload Section */}
+          {/* Mapping Section */}
           <Card className="p-6 shadow-card">
             <div className="flex items-center gap-2 mb-4">
               <RefreshCw className="h-5 w-5 text-secondary" />
-              <h2 className="text-xl font-semibold text-foreground">Step 2: Upload CSV Mapping</h2>
+              <h2 className="text-xl font-semibold text-foreground">Step 2: Choose New Names</h2>
             </div>
-            <p className="text-muted-foreground mb-4">
-              Upload a CSV file with current and new image names
-            </p>
-            <CSVUpload mapping={mapping} onMappingChange={setMapping} />
+            <Tabs defaultValue="csv">
+              <TabsList className="grid w-full grid-cols-3 mb-4">
+                <TabsTrigger value="csv">Mapping file</TabsTrigger>
+                <TabsTrigger value="template">Name template</TabsTrigger>
+                <TabsTrigger value="regex">Find & replace</TabsTrigger>
+              </TabsList>
+              <TabsContent value="csv">
+                <p className="text-muted-foreground mb-4">
+                  Upload a CSV, Excel (.xlsx), OpenDocument (.ods) or JSON file with current and new image names
+                </p>
+                <CSVUpload mapping={mapping} onMappingChange={setMapping} />
+              </TabsContent>
+              <TabsContent value="template">
+                <p className="text-muted-foreground mb-4">
+                  Build new names from the original name, file date, dimensions, EXIF capture date and a counter.
+                  The generated mapping can be reviewed and edited on the Mapping file tab.
+                </p>
+                <TemplateRename images={images} onMappingChange={setMapping} />
+              </TabsContent>
+              <TabsContent value="regex">
+                <p className="text-muted-foreground mb-4">
+                  Rename files matching a regular expression; use $1, $2... in the replacement for captured groups
+                </p>
+                <RegexRename images={images} onMappingChange={setMapping} />
+              </TabsContent>
+            </Tabs>
           </Card>
         </div>
 
@@ -77,7 +99,7 @@ const Index = () => {
             <p className="text-muted-foreground mb-6">
               Process your images and download them with new names
             </p>
-            <ImageProcessor images={images} mapping={mapping} />
+            <ImageProcessor images={images} mapping={mapping} onMappingChange={setMapping} />
           </div>
         </Card>
 
@@ -87,9 +109,20 @@ const Index = () => {
           <div className="text-sm text-muted-foreground space-y-2">
             <p>Your CSV file should have two columns:</p>
             <ul className="list-disc list-inside space-y-1 ml-4">
-              <li><strong>Current Name:</strong> The current filename (with or without extension)</li>
-              <li><strong>New Name:</strong> The desired new filename</li>
+              <li><strong>Current Name:</strong> The current filename (with or without extension); for dropped folders, a path such as <code>shoes/front.jpg</code> tells apart files with the same name</li>
+              <li><strong>New Name:</strong> The desired new filename; use <code>brand/category/name.jpg</code> to place it in folders</li>
             </ul>
+            <p>
+              An optional <strong>folder</strong> column works the same way: its value is prepended to the new name,
+              and the downloaded ZIP contains the matching directory tree. A <strong>watermark</strong> column
+              with "no" leaves the watermark off that image, and a <strong>crop</strong> column holding{' '}
+              <code>x,y,width,height</code> in pixels crops it; the crop editor fills this in for you.
+              A <strong>quality</strong> column (a fraction such as <code>0.85</code>, or a percentage such as{' '}
+              <code>85%</code>; <code>1</code> means full quality) and a <strong>format</strong> column (jpg, png,
+              webp, avif or original) override the output settings for that row. <strong>Title</strong>,{' '}
+              <strong>description</strong> (or caption), <strong>copyright</strong>, <strong>keywords</strong>{' '}
+              (or tags) and <strong>alt_text</strong> columns are written into the image's metadata.
+            </p>
             <p className="mt-3">
               <strong>Example CSV content:</strong>
             </p>